@@ -9,5 +9,8 @@ export default defineConfig({
         plugins: [tailwindcss()]
     },
     integrations: [react()],
-    adapter: netlify()
+    adapter: netlify({
+        // Read at runtime by the PDF converter for text outside the standard fonts
+        includeFiles: ['./node_modules/@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf']
+    })
 });
@@ -0,0 +1,39 @@
+import type { Config, Context } from '@netlify/edge-functions';
+import { getStore } from '@netlify/blobs';
+import {
+    assignedVariant,
+    experimentCookieMaxAge,
+    experimentCookieName,
+    experimentForPath,
+    experiments,
+    exposurePrefix,
+    exposureStoreName,
+    pickVariant
+} from './lib/experiments.ts';
+
+export default async (request: Request, context: Context) => {
+    const experiment = experimentForPath(new URL(request.url).pathname);
+    if (!experiment) return;
+
+    const cookieName = experimentCookieName(experiment);
+    let variant = assignedVariant(experiment, context.cookies.get(cookieName));
+    if (!variant) {
+        variant = pickVariant(experiment, Math.random());
+        context.cookies.set({ name: cookieName, value: variant.name, path: '/', maxAge: experimentCookieMaxAge, sameSite: 'Lax', httpOnly: true });
+        // Recorded once per visitor, when they're first bucketed; the response doesn't wait for it
+        const exposureKey = `${exposurePrefix(experiment, variant)}${Date.now()}-${crypto.randomUUID()}`;
+        context.waitUntil(getStore(exposureStoreName).set(exposureKey, '').catch((e) => console.error('Failed recording exposure', e)));
+    }
+
+    // A rewrite serves the variant's page from within Netlify, unlike a fetch, and still leaves its headers to adjust.
+    // Returning a URL would rewrite too, but without a response to add the headers to.
+    const response = variant.path ? await context.rewrite(variant.path) : await context.next();
+    // Keeps the CDN from serving one bucket's cached page to another
+    response.headers.set('Netlify-Vary', [response.headers.get('Netlify-Vary'), `cookie=${cookieName}`].filter(Boolean).join(','));
+    response.headers.set('X-Experiment', `${experiment.id}=${variant.name}`);
+    return response;
+};
+
+export const config: Config = {
+    path: experiments.map(({ path }) => path)
+};
@@ -1,11 +1,16 @@
 // netlify/functions/convert.js
-const multipart = require('parse-multipart-data');
+import multipart from 'parse-multipart-data';
+import { requestLocale } from '../lib/locales.ts';
+import { translator } from '../../../src/utils/i18n.ts';
+
+export const handler = async (event, context) => {
+    // 错误信息使用访客的语言（locale Cookie 或 Accept-Language）
+    const t = translator(requestLocale(new Request(event.rawUrl, { headers: event.headers })));
 
-exports.handler = async (event, context) => {
     if (event.httpMethod !== 'POST') {
         return {
             statusCode: 405,
-            body: JSON.stringify({ error: 'Method not allowed' })
+            body: JSON.stringify({ error: t('errors.methodNotAllowed') })
         };
     }
 
@@ -20,7 +25,7 @@ exports.handler = async (event, context) => {
         if (!file || !targetFormat) {
             return {
                 statusCode: 400,
-                body: JSON.stringify({ error: '缺少文件或目标格式' })
+                body: JSON.stringify({ error: t('errors.missingFileOrFormat') })
             };
         }
 
@@ -44,7 +49,7 @@ exports.handler = async (event, context) => {
         console.error('转换错误:', error);
         return {
             statusCode: 500,
-            body: JSON.stringify({ error: '转换失败: ' + error.message })
+            body: JSON.stringify({ error: t('errors.conversionFailedWithReason', { error: error.message }) })
         };
     }
 };
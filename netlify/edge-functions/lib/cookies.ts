@@ -0,0 +1,8 @@
+// Reads one cookie from the request's Cookie header, for code that runs without a Netlify context
+export function cookieValue(request: Request, name: string) {
+    for (const pair of request.headers.get('cookie')?.split(';') ?? []) {
+        const separator = pair.indexOf('=');
+        if (separator > 0 && pair.slice(0, separator).trim() === name) return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+    return undefined;
+}
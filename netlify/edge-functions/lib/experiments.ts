@@ -0,0 +1,63 @@
+// A/B experiments run at the edge: each visitor of an experiment's path is assigned one of its variants by weight,
+// keeps it through a cookie, and gets the variant's page served under the original URL.
+// Also imported by the results page, so this module must not depend on Netlify globals.
+
+export interface ExperimentVariant {
+    name: string;
+    // Relative share of visitors; weights don't need to add up to 100
+    weight: number;
+    // The page served to this variant; leave it out for the control, which keeps the original page
+    path?: `/${string}`;
+}
+
+export interface Experiment {
+    id: string;
+    description: string;
+    path: `/${string}`;
+    variants: ExperimentVariant[];
+}
+
+export const experiments: Experiment[] = [
+    {
+        id: 'home-cta',
+        description: 'Does leading with the Blobs demo get more visitors to try it than the docs link?',
+        path: '/',
+        variants: [
+            { name: 'control', weight: 50 },
+            { name: 'blobs-first', weight: 50, path: '/experiments/variants/home-blobs-first' }
+        ]
+    }
+];
+
+export const experimentCookieMaxAge = 30 * 86_400;
+
+export function experimentCookieName(experiment: Experiment) {
+    return `ab-${experiment.id}`;
+}
+
+export function experimentForPath(pathname: string) {
+    return experiments.find((experiment) => experiment.path === pathname);
+}
+
+// random is a number in [0, 1), as from Math.random()
+export function pickVariant(experiment: Experiment, random: number) {
+    const total = experiment.variants.reduce((sum, { weight }) => sum + weight, 0);
+    let threshold = random * total;
+    for (const variant of experiment.variants) {
+        threshold -= variant.weight;
+        if (threshold < 0) return variant;
+    }
+    return experiment.variants.at(-1);
+}
+
+// A bucket from the cookie only counts if the variant still exists
+export function assignedVariant(experiment: Experiment, cookieValue: string | undefined) {
+    return experiment.variants.find(({ name }) => name === cookieValue);
+}
+
+// Exposures are stored one blob per assignment: exposures/<experiment id>/<variant>/<timestamp>-<id>
+export const exposureStoreName = 'experiments';
+
+export function exposurePrefix(experiment: Experiment, variant?: ExperimentVariant) {
+    return `exposures/${experiment.id}/${variant ? `${variant.name}/` : ''}`;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { applyGeoAction, geoFromRequest, matchesConditions, resolveGeoAction, type Geo, type GeoRoutingTable } from './geoRouting.ts';
+
+function request(path = '/edge', headers: Record<string, string> = {}) {
+    return new Request(new URL(path, 'https://example.com'), { headers });
+}
+
+// What context.geo holds for a visitor from Sydney
+const sydney: Geo = { country: { code: 'AU', name: 'Australia' }, subdivision: { code: 'NSW', name: 'New South Wales' }, city: 'Sydney' };
+
+describe('matchesConditions', () => {
+    it('matches countries, ignoring case', () => {
+        expect(matchesConditions({ country: ['au'] }, request(), sydney)).toBe(true);
+        expect(matchesConditions({ country: ['NZ'] }, request(), sydney)).toBe(false);
+        expect(matchesConditions({ country: ['AU'] }, request(), {})).toBe(false);
+    });
+
+    it('matches subdivisions', () => {
+        expect(matchesConditions({ subdivision: ['NSW', 'VIC'] }, request(), sydney)).toBe(true);
+        expect(matchesConditions({ subdivision: ['VIC'] }, request(), sydney)).toBe(false);
+    });
+
+    it('matches cities', () => {
+        expect(matchesConditions({ city: ['sydney'] }, request(), sydney)).toBe(true);
+        expect(matchesConditions({ city: ['Melbourne'] }, request(), sydney)).toBe(false);
+    });
+
+    it('matches the most preferred language', () => {
+        const german = request('/edge', { 'accept-language': 'en;q=0.5, de-AT, *;q=0.1' });
+        expect(matchesConditions({ language: ['de'] }, german, sydney)).toBe(true);
+        expect(matchesConditions({ language: ['en'] }, german, sydney)).toBe(false);
+        expect(matchesConditions({ language: ['de'] }, request(), sydney)).toBe(false);
+    });
+
+    it('matches the presence or the value of a cookie', () => {
+        const withCookie = request('/edge', { cookie: 'theme=dark; beta=1' });
+        expect(matchesConditions({ cookie: { name: 'beta' } }, withCookie, sydney)).toBe(true);
+        expect(matchesConditions({ cookie: { name: 'theme', values: ['DARK'] } }, withCookie, sydney)).toBe(true);
+        expect(matchesConditions({ cookie: { name: 'theme', values: ['light'] } }, withCookie, sydney)).toBe(false);
+        expect(matchesConditions({ cookie: { name: 'beta' } }, request(), sydney)).toBe(false);
+    });
+
+    it('matches the presence or the value of a query parameter', () => {
+        expect(matchesConditions({ query: { name: 'preview' } }, request('/edge?preview'), sydney)).toBe(true);
+        expect(matchesConditions({ query: { name: 'mode', values: ['a'] } }, request('/edge?mode=a'), sydney)).toBe(true);
+        expect(matchesConditions({ query: { name: 'mode', values: ['a'] } }, request('/edge?mode=b'), sydney)).toBe(false);
+        expect(matchesConditions({ query: { name: 'preview' } }, request(), sydney)).toBe(false);
+    });
+
+    it('requires every condition to match, and matches anything without conditions', () => {
+        expect(matchesConditions({ country: ['AU'], city: ['Sydney'] }, request(), sydney)).toBe(true);
+        expect(matchesConditions({ country: ['AU'], city: ['Perth'] }, request(), sydney)).toBe(false);
+        expect(matchesConditions({}, request(), {})).toBe(true);
+    });
+});
+
+describe('geoFromRequest', () => {
+    it('replaces the country with ?geo=XX and drops the subdivision', () => {
+        expect(geoFromRequest(request('/edge?geo=nz'), sydney)).toEqual({ ...sydney, country: { code: 'NZ' }, subdivision: undefined });
+    });
+
+    it('replaces country and subdivision with ?geo=XX-YYY', () => {
+        expect(geoFromRequest(request('/edge?geo=us-ca'), sydney)).toEqual({ ...sydney, country: { code: 'US' }, subdivision: { code: 'CA' } });
+    });
+
+    it('ignores malformed overrides', () => {
+        expect(geoFromRequest(request('/edge?geo=australia'), sydney)).toBe(sydney);
+    });
+});
+
+describe('resolveGeoAction', () => {
+    const table: GeoRoutingTable = {
+        rules: [
+            { name: 'new-south-wales', when: { country: ['AU'], subdivision: ['NSW'] }, then: { rewrite: '/edge/nsw' } },
+            { name: 'australia', when: { country: ['AU'] }, then: { redirect: '/edge/australia', status: 301 } },
+            { name: 'everyone-else-in-oceania', when: { country: ['AU', 'NZ'] }, then: { redirect: '/edge/oceania' } }
+        ],
+        fallback: { redirect: '/edge/elsewhere', status: 302 }
+    };
+
+    it('picks the first rule that matches', () => {
+        expect(resolveGeoAction(table, request(), sydney)).toEqual({ rule: 'new-south-wales', action: { rewrite: '/edge/nsw' } });
+        expect(resolveGeoAction(table, request(), { country: { code: 'AU' } }).rule).toBe('australia');
+        expect(resolveGeoAction(table, request(), { country: { code: 'NZ' } }).rule).toBe('everyone-else-in-oceania');
+    });
+
+    it('falls back when no rule matches', () => {
+        expect(resolveGeoAction(table, request(), { country: { code: 'DE' } })).toEqual({ rule: null, action: table.fallback });
+        expect(resolveGeoAction(table, request())).toEqual({ rule: null, action: table.fallback });
+    });
+
+    it('applies the ?geo override before matching', () => {
+        expect(resolveGeoAction(table, request('/edge?geo=DE'), sydney).rule).toBeNull();
+        expect(resolveGeoAction(table, request('/edge?geo=AU-NSW')).rule).toBe('new-south-wales');
+        expect(resolveGeoAction(table, request('/edge?geo=AU-QLD')).rule).toBe('australia');
+    });
+});
+
+describe('applyGeoAction', () => {
+    it('turns a rewrite into a URL on the same origin', () => {
+        const result = applyGeoAction({ rewrite: '/edge/nsw' }, request('/edge?x=1'));
+        expect(result).toBeInstanceOf(URL);
+        expect(String(result)).toBe('https://example.com/edge/nsw');
+    });
+
+    it('redirects with the given status', () => {
+        const response = applyGeoAction({ redirect: '/edge/australia', status: 301 }, request()) as Response;
+        expect(response.status).toBe(301);
+        expect(response.headers.get('location')).toBe('https://example.com/edge/australia');
+    });
+
+    it('redirects temporarily by default', () => {
+        const response = applyGeoAction({ redirect: '/edge/oceania' }, request()) as Response;
+        expect(response.status).toBe(302);
+        expect(response.headers.get('location')).toBe('https://example.com/edge/oceania');
+    });
+});
@@ -0,0 +1,95 @@
+import type { Context } from '@netlify/edge-functions';
+import { cookieValue } from './cookies.ts';
+
+// Declarative geo-routing: the first rule whose conditions all match decides what happens to the request,
+// and the fallback applies when none does. Kept free of Netlify globals so it can be exercised with a mocked context.geo.
+
+export type Geo = Context['geo'];
+
+// Each condition lists accepted values; omitted conditions always match. Matching is case-insensitive.
+export interface GeoConditions {
+    // ISO 3166-1 country codes, e.g. "AU"
+    country?: string[];
+    // Subdivision codes without the country prefix, e.g. "NSW"
+    subdivision?: string[];
+    city?: string[];
+    // Primary subtags of the visitor's most preferred language (Accept-Language), e.g. "de"
+    language?: string[];
+    // A cookie, or query parameter, that must be present, optionally with one of the given values
+    cookie?: { name: string; values?: string[] };
+    query?: { name: string; values?: string[] };
+}
+
+// A rewrite serves the target's content under the original URL; a redirect sends the browser there
+export type GeoAction = { rewrite: string } | { redirect: string; status?: 301 | 302 };
+
+export interface GeoRule {
+    name: string;
+    when: GeoConditions;
+    then: GeoAction;
+}
+
+export interface GeoRoutingTable {
+    rules: GeoRule[];
+    fallback: GeoAction;
+}
+
+// ?geo=XX or ?geo=XX-YYY stands in for the visitor's country and subdivision, to try rules out locally
+export const geoOverrideParameter = 'geo';
+
+export function geoFromRequest(request: Request, geo: Geo = {}): Geo {
+    const override = new URL(request.url).searchParams.get(geoOverrideParameter);
+    const match = override?.match(/^([a-z]{2})(?:-([a-z\d]{1,3}))?$/i);
+    if (!match) return geo;
+    return {
+        ...geo,
+        country: { code: match[1].toUpperCase() },
+        subdivision: match[2] ? { code: match[2].toUpperCase() } : undefined
+    };
+}
+
+function includesValue(values: string[], value: string | undefined) {
+    return value !== undefined && values.some((candidate) => candidate.toLowerCase() === value.toLowerCase());
+}
+
+function preferredLanguage(request: Request) {
+    const ranked = (request.headers.get('accept-language') ?? '')
+        .split(',')
+        .map((entry) => {
+            const [tag, ...params] = entry.trim().split(';');
+            const quality = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+            return { tag: tag.split('-')[0], quality: quality ? Number(quality.slice(2)) : 1 };
+        })
+        .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+        .sort((a, b) => b.quality - a.quality);
+    return ranked[0]?.tag;
+}
+
+function matchesPresence(actual: string | null | undefined, condition: { values?: string[] }) {
+    if (actual === null || actual === undefined) return false;
+    return !condition.values || includesValue(condition.values, actual);
+}
+
+export function matchesConditions(conditions: GeoConditions, request: Request, geo: Geo) {
+    const { country, subdivision, city, language, cookie, query } = conditions;
+    return (
+        (!country || includesValue(country, geo.country?.code)) &&
+        (!subdivision || includesValue(subdivision, geo.subdivision?.code)) &&
+        (!city || includesValue(city, geo.city)) &&
+        (!language || includesValue(language, preferredLanguage(request))) &&
+        (!cookie || matchesPresence(cookieValue(request, cookie.name), cookie)) &&
+        (!query || matchesPresence(new URL(request.url).searchParams.get(query.name), query))
+    );
+}
+
+export function resolveGeoAction(table: GeoRoutingTable, request: Request, geo: Geo = {}) {
+    const effectiveGeo = geoFromRequest(request, geo);
+    const rule = table.rules.find(({ when }) => matchesConditions(when, request, effectiveGeo));
+    return { rule: rule?.name ?? null, action: rule?.then ?? table.fallback };
+}
+
+// A URL tells Netlify to rewrite to it; a Response is sent as is
+export function applyGeoAction(action: GeoAction, request: Request): URL | Response {
+    if ('rewrite' in action) return new URL(action.rewrite, request.url);
+    return Response.redirect(new URL(action.redirect, request.url), action.status ?? 302);
+}
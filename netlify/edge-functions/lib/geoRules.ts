@@ -0,0 +1,13 @@
+import type { GeoRoutingTable } from './geoRouting.ts';
+
+// Rules are tried from top to bottom. See GeoConditions for what each condition matches on.
+export const geoRoutingTable: GeoRoutingTable = {
+    rules: [
+        {
+            name: 'australia',
+            when: { country: ['AU'] },
+            then: { redirect: '/edge/australia', status: 302 }
+        }
+    ],
+    fallback: { redirect: '/edge/not-australia', status: 302 }
+};
@@ -0,0 +1,48 @@
+import { cookieValue } from './cookies.ts';
+
+// The languages the site is translated into. The locale edge function picks one per visitor and keeps it in a cookie;
+// the site reads it back from there (see src/middleware.ts), falling back to the same negotiation without the edge function.
+
+export const locales = ['en', 'zh-CN'] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = 'en';
+
+export const localeCookieName = 'locale';
+
+export const localeCookieMaxAge = 365 * 86_400;
+
+export const localeNames: Record<Locale, string> = {
+    en: 'English',
+    'zh-CN': '简体中文'
+};
+
+export function isLocale(value: unknown): value is Locale {
+    return locales.includes(value as Locale);
+}
+
+// Takes the highest-ranked language in Accept-Language that the site has, matching "zh-TW" or "zh" to "zh-CN" and so on
+export function negotiateLocale(acceptLanguage: string | null): Locale {
+    const ranked = (acceptLanguage ?? '')
+        .split(',')
+        .map((entry) => {
+            const [tag, ...params] = entry.trim().split(';');
+            const quality = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+            return { tag: tag.trim().toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1 };
+        })
+        .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+        .sort((a, b) => b.quality - a.quality);
+
+    for (const { tag } of ranked) {
+        const match = locales.find((locale) => locale.toLowerCase() === tag) ?? locales.find((locale) => locale.split('-')[0] === tag.split('-')[0]);
+        if (match) return match;
+    }
+    return defaultLocale;
+}
+
+// The visitor's explicit choice from the cookie wins over their browser's languages
+export function requestLocale(request: Request): Locale {
+    const chosen = cookieValue(request, localeCookieName);
+    return isLocale(chosen) ? chosen : negotiateLocale(request.headers.get('accept-language'));
+}
@@ -0,0 +1,21 @@
+import type { Config, Context } from '@netlify/edge-functions';
+import { isLocale, localeCookieMaxAge, localeCookieName, negotiateLocale } from './lib/locales.ts';
+
+// Picks a locale for first-time visitors from Accept-Language and remembers it in a cookie.
+// The language switcher in the header overwrites the cookie when a visitor picks another one.
+export default async (request: Request, context: Context) => {
+    if (isLocale(context.cookies.get(localeCookieName))) return;
+
+    const locale = negotiateLocale(request.headers.get('accept-language'));
+    context.cookies.set({ name: localeCookieName, value: locale, path: '/', maxAge: localeCookieMaxAge, sameSite: 'Lax' });
+
+    // The cookie is also added to this request, so the page is rendered (and cached, see Netlify-Vary) in that locale
+    const headers = new Headers(request.headers);
+    headers.set('cookie', [request.headers.get('cookie'), `${localeCookieName}=${locale}`].filter(Boolean).join('; '));
+    return context.next(new Request(request, { headers }));
+};
+
+export const config: Config = {
+    path: '/*',
+    excludedPath: ['/_astro/*', '/images/*', '/favicon.svg']
+};
@@ -0,0 +1,12 @@
+import type { Config, Context } from '@netlify/edge-functions';
+import { applyGeoAction, resolveGeoAction } from './lib/geoRouting.ts';
+import { geoRoutingTable } from './lib/geoRules.ts';
+
+export default async (request: Request, context: Context) => {
+    const { action } = resolveGeoAction(geoRoutingTable, request, context.geo);
+    return applyGeoAction(action, request);
+};
+
+export const config: Config = {
+    path: '/edge'
+};
@@ -0,0 +1,17 @@
+import { claimConversionJob, runConversionJob } from '../../src/utils/conversionJobs.ts';
+import { runWithLocale } from '../../src/utils/requestLocale.ts';
+import { defaultLocale, isLocale } from '../edge-functions/lib/locales.ts';
+
+// Runs conversion jobs started by src/utils/conversionJobs.ts. As a background function it may take up to 15 minutes,
+// and Netlify responds with a 202 as soon as it's invoked, so the return value goes nowhere.
+export default async (request: Request) => {
+    const { id, locale } = await request.json().catch(() => ({}));
+    const job = typeof id === 'string' ? await claimConversionJob(id) : null;
+    if (!job) return;
+    await runWithLocale(isLocale(locale) ? locale : defaultLocale, () => runConversionJob(job));
+};
+
+export const config = {
+    // Read by the PDF converter for text outside the standard fonts, as in astro.config.mjs
+    includedFiles: ['node_modules/@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf']
+};
@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef } from 'react';
+import { translator, type Locale } from '../utils/i18n';
+import { ApiRequestError, apiClient } from '../utils/apiClient';
+import type { KnownCacheTag, PurgeRecord } from '../types';
+
+type PurgeResult = { tags: string[] } | { error: string };
+
+// The secret is kept for the browser session only; the name identifies the caller in the purge timeline
+const secretStorageKey = 'revalidate-secret';
+const authorStorageKey = 'revalidate-author';
+
+interface Props {
+    locale?: Locale;
+}
+
+export default function CacheDashboard(props: Props) {
+    const { locale } = props;
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const [tags, setTags] = useState<KnownCacheTag[]>([]);
+    const [filter, setFilter] = useState<string>('');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [secret, setSecret] = useState<string>('');
+    const [author, setAuthor] = useState<string>('');
+    const [purging, setPurging] = useState<boolean>(false);
+    const [result, setResult] = useState<PurgeResult>(null);
+    const [purges, setPurges] = useState<PurgeRecord[]>([]);
+    const [timelineError, setTimelineError] = useState<string>(null);
+    // The secret the timeline was last loaded with, so that leaving the field without changing it doesn't load it again
+    const timelineSecret = useRef<string>(null);
+
+    const authHeaders = (key = secret): Record<string, string> => ({
+        Authorization: `Bearer ${key}`,
+        ...(author && { 'X-Author': author })
+    });
+
+    const loadTags = async () => {
+        setTags((await api.cacheTags()).tags);
+    };
+
+    // Only called once a secret has been entered (on submit or blur), as the purge log is rate limited per minute
+    const loadTimeline = async (key = secret) => {
+        if (!key) return;
+        timelineSecret.current = key;
+        try {
+            const { purges } = await api.purgeLog(authHeaders(key));
+            setTimelineError(null);
+            setPurges(purges);
+        } catch (e) {
+            timelineSecret.current = null;
+            setTimelineError((e as Error).message);
+        }
+    };
+
+    const toggleTag = (tag: string) => {
+        const next = new Set(selected);
+        if (next.has(tag)) next.delete(tag);
+        else next.add(tag);
+        setSelected(next);
+    };
+
+    const purgeSelected = async () => {
+        setPurging(true);
+        setResult(null);
+        try {
+            const { invalidated, purge } = await api.purge([...selected], authHeaders());
+            setResult({ tags: invalidated });
+            setPurges((previous) => [purge, ...previous]);
+            setSelected(new Set());
+        } catch (e) {
+            setResult({ error: (e as Error).message });
+            // A purge the CDN refused is still logged
+            if (e instanceof ApiRequestError && e.status === 502) loadTimeline();
+        } finally {
+            setPurging(false);
+        }
+    };
+
+    useEffect(() => {
+        const storedSecret = sessionStorage.getItem(secretStorageKey) ?? '';
+        setSecret(storedSecret);
+        setAuthor(localStorage.getItem(authorStorageKey) ?? '');
+        loadTags().catch(() => setTags([]));
+        loadTimeline(storedSecret);
+    }, []);
+
+    useEffect(() => {
+        sessionStorage.setItem(secretStorageKey, secret);
+    }, [secret]);
+
+    useEffect(() => {
+        localStorage.setItem(authorStorageKey, author);
+    }, [author]);
+
+    const visibleTags = tags.filter(({ tag, routes }) => !filter || tag.includes(filter) || routes.some((route) => route.includes(filter)));
+
+    return (
+        <div className="flex flex-col gap-8 md:flex-row">
+            <div className="flex-1 bg-white rounded-lg text-gray-900">
+                <form
+                    className="flex flex-wrap gap-2 p-4 border-b border-gray-200"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        loadTimeline();
+                    }}
+                >
+                    <input
+                        type="password"
+                        placeholder={t('cache.secret')}
+                        value={secret}
+                        onChange={(e) => setSecret(e.target.value)}
+                        onBlur={() => secret !== timelineSecret.current && loadTimeline()}
+                        className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-sm"
+                    />
+                    <input
+                        type="text"
+                        placeholder={t('cache.author')}
+                        value={author}
+                        onChange={(e) => setAuthor(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-sm"
+                    />
+                    <button type="submit" className="btn" disabled={!secret}>
+                        {t('cache.loadTimeline')}
+                    </button>
+                </form>
+                <div className="p-4 border-b border-gray-200">
+                    <input
+                        type="search"
+                        placeholder={t('cache.filter')}
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-sm"
+                    />
+                </div>
+                <ul className="p-4 space-y-2 overflow-y-auto text-sm max-h-96">
+                    {visibleTags.map(({ tag, routes }) => (
+                        <li key={tag}>
+                            <label className="flex items-start gap-2 cursor-pointer">
+                                <input type="checkbox" className="mt-1" checked={selected.has(tag)} onChange={() => toggleTag(tag)} />
+                                <span>
+                                    <code className="font-semibold">{tag}</code>
+                                    <span className="block text-xs text-gray-500">{routes.join(', ')}</span>
+                                </span>
+                            </label>
+                        </li>
+                    ))}
+                    {visibleTags.length === 0 && <li className="text-gray-500">{t('cache.noTags')}</li>}
+                </ul>
+                <div className="flex flex-wrap items-center gap-4 p-4 border-t border-gray-200">
+                    <button className="btn" onClick={purgeSelected} disabled={purging || selected.size === 0 || !secret}>
+                        {purging ? t('cache.purging') : t('cache.purge', { count: selected.size })}
+                    </button>
+                    {result && (
+                        <span className={`text-sm ${'error' in result ? 'text-red-700' : 'text-green-700'}`}>
+                            {'error' in result ? result.error : t('cache.invalidated', { tags: result.tags.join(', ') })}
+                        </span>
+                    )}
+                </div>
+            </div>
+            <div className="flex-1 p-4 bg-white rounded-lg text-gray-900">
+                <h3 className="mb-4 text-lg">{t('cache.timeline')}</h3>
+                {!secret && <p className="text-sm text-gray-500">{t('cache.timelineLocked')}</p>}
+                {timelineError && <p className="text-sm text-red-700">{timelineError}</p>}
+                <ol className="space-y-3 overflow-y-auto text-sm max-h-[32rem]">
+                    {purges.map((purge) => (
+                        <li key={purge.id} className="pl-3 border-l-2 border-primary">
+                            <div className="text-xs text-gray-500">
+                                {new Date(purge.purgedAt).toLocaleString(locale)} · {purge.author} ({purge.ip}, {purge.auth})
+                            </div>
+                            <div>{purge.tags.join(', ')}</div>
+                            {purge.error && <div className="text-red-700">{t('cache.purgeFailed', { error: purge.error })}</div>}
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+}
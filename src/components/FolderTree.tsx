@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen } from 'lucide-react';
+import { apiClient } from '../utils/apiClient';
+
+interface Props {
+    path: string;
+    name: string;
+    currentPath: string;
+    // Bumped by the parent whenever folders may have changed, so expanded nodes reload their children
+    version: number;
+    onSelect: (path: string) => void;
+}
+
+export default function FolderTree(props: Props) {
+    const { path, name, currentPath, version, onSelect } = props;
+    const [expanded, setExpanded] = useState(path === '' || currentPath.startsWith(`${path}/`));
+    const [children, setChildren] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (currentPath.startsWith(`${path}/`)) setExpanded(true);
+    }, [currentPath]);
+
+    useEffect(() => {
+        if (!expanded) return;
+        apiClient()
+            .listDirectory(path)
+            .then((listing) => setChildren(listing.directories))
+            .catch(() => setChildren([]));
+    }, [expanded, version]);
+
+    const Icon = currentPath === path ? FolderOpen : Folder;
+    return (
+        <li>
+            <div className="flex items-center gap-1">
+                <button onClick={() => setExpanded(!expanded)} className="text-gray-300 hover:text-white">
+                    {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                </button>
+                <button
+                    onClick={() => onSelect(path)}
+                    className={`flex items-center gap-2 px-2 py-1 rounded text-sm transition-colors ${
+                        currentPath === path ? 'bg-primary text-primary-content' : 'text-white hover:bg-white/10'
+                    }`}
+                >
+                    <Icon size={16} />
+                    <span>{name}</span>
+                </button>
+            </div>
+            {expanded && children.length > 0 && (
+                <ul className="pl-4">
+                    {children.map((child) => {
+                        const childPath = path ? `${path}/${child}` : child;
+                        return <FolderTree key={childPath} path={childPath} name={child} currentPath={currentPath} version={version} onSelect={onSelect} />;
+                    })}
+                </ul>
+            )}
+        </li>
+    );
+}
@@ -1,5 +1,12 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileText, Image, Folder, Download, Trash2, Edit, Copy, Move } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Upload, FileText, Image as ImageIcon, Folder, FolderPlus, Download, Trash2, Edit, Copy, Move } from 'lucide-react';
+import FolderTree from './FolderTree.tsx';
+import { expandZip } from '../utils/archive';
+import { uploadDisabled } from '../utils';
+import { apiClient, ApiRequestError } from '../utils/apiClient';
+import { abortUpload, pendingUploads, uploadInChunks, type PendingUpload } from '../utils/chunkedUpload';
+import { translator, type Locale } from '../utils/i18n';
+import type { ConversionJob, DirectoryListing, DocumentFormat } from '../types';
 
 interface FileItem {
     id: number;
@@ -8,23 +15,66 @@ interface FileItem {
     type: string;
     file: File;
     status: string;
+    progress?: number;
 }
 
-const ToolsApp = () => {
+const recentConversionsKey = 'tools:recent-conversions';
+const maxRecentConversions = 20;
+// 服务端会把超过 15 分钟没有进展的任务标记为失败，轮询在任务创建 20 分钟后放弃
+const conversionPollTimeout = 20 * 60 * 1000;
+const maxConversionPollInterval = 10 * 1000;
+
+interface Props {
+    locale?: Locale;
+}
+
+const ToolsApp = ({ locale }: Props) => {
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const conversionStatusLabels: Record<string, string> = {
+        uploading: t('tools.status.uploading'),
+        queued: t('tools.status.queued'),
+        running: t('tools.status.running'),
+        done: t('tools.status.done'),
+        failed: t('tools.status.failed')
+    };
     const [activeTab, setActiveTab] = useState('convert');
     const [files, setFiles] = useState<FileItem[]>([]);
-    const [selectedFiles, setSelectedFiles] = useState<number[]>([]);
+    const [currentPath, setCurrentPath] = useState('');
+    const [folder, setFolder] = useState<DirectoryListing | null>(null);
+    const [folderVersion, setFolderVersion] = useState(0);
+    const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState('');
     const [quality, setQuality] = useState(80);
+    const [maxDimension, setMaxDimension] = useState(1920);
+    const [imageFormat, setImageFormat] = useState('');
+    const [bundleResults, setBundleResults] = useState(false);
+    const [recentConversions, setRecentConversions] = useState<ConversionJob[]>([]);
+    const [interruptedUploads, setInterruptedUploads] = useState<PendingUpload[]>([]);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const resumeInputRef = useRef<HTMLInputElement>(null);
+    const resumingUpload = useRef<PendingUpload | null>(null);
 
-    // 文件上传处理
-    const handleFileUpload = (uploadedFiles: FileList | null) => {
+    // 文件上传处理，ZIP 压缩包会被展开为其中的文件
+    const handleFileUpload = async (uploadedFiles: FileList | null) => {
         if (!uploadedFiles) return;
-        
-        const newFiles = Array.from(uploadedFiles).map((file, index) => ({
+
+        const expanded: File[] = [];
+        for (const file of Array.from(uploadedFiles)) {
+            if (!/\.zip$/i.test(file.name)) {
+                expanded.push(file);
+                continue;
+            }
+            try {
+                expanded.push(...(await expandZip(file)));
+            } catch (error) {
+                setMessage(t('tools.unzipFailed', { name: file.name, error: (error as Error).message }));
+            }
+        }
+
+        const newFiles = expanded.map((file, index) => ({
             id: Date.now() + index,
             name: file.name,
             size: file.size,
@@ -35,42 +85,151 @@ const ToolsApp = () => {
         setFiles(prev => [...prev, ...newFiles]);
     };
 
-    // 文档转换
-    const convertDocument = async (file: FileItem, targetFormat: string) => {
+    // 更新单个文件的状态
+    const updateFile = (id: number, changes: Partial<FileItem>) => {
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...changes } : f)));
+    };
+
+    // 记录最近的转换任务（保存在 localStorage 中，刷新后仍然可见）
+    const rememberConversion = (job: ConversionJob) => {
+        setRecentConversions(prev => [job, ...prev.filter(j => j.id !== job.id)].slice(0, maxRecentConversions));
+    };
+
+    const forgetConversion = (jobId: string) => {
+        setRecentConversions(prev => prev.filter(j => j.id !== jobId));
+    };
+
+    // 轮询转换任务直到完成或失败，间隔逐渐加长，超过期限后放弃
+    const pollConversionJob = async (jobId: string, fileId?: number): Promise<ConversionJob> => {
+        for (let interval = 1000; ; interval = Math.min(interval * 1.5, maxConversionPollInterval)) {
+            let job: ConversionJob;
+            try {
+                ({ job } = await api.conversionJob(jobId));
+            } catch (error) {
+                // 任务已过期或被清理，不再保留在最近转换中
+                if (error instanceof ApiRequestError && error.status === 404) forgetConversion(jobId);
+                throw error;
+            }
+            if ((job.status === 'queued' || job.status === 'running') && Date.now() + interval > job.createdAt + conversionPollTimeout) {
+                job = { ...job, status: 'failed', error: t('tools.convert.timedOut') };
+            }
+            rememberConversion(job);
+            if (fileId !== undefined) updateFile(fileId, { status: job.status, progress: job.progress });
+            if (job.status === 'done' || job.status === 'failed') return job;
+            await new Promise(resolve => setTimeout(resolve, interval));
+        }
+    };
+
+    // 文档转换（异步任务），返回完成的任务；失败时返回 null
+    const convertDocument = async (file: FileItem, targetFormat: string, download = true): Promise<ConversionJob | null> => {
+        setMessage('');
+        updateFile(file.id, { status: 'uploading', progress: 0 });
+
+        try {
+            // 分片上传，刷新页面后可以从中断处继续
+            const result = await uploadInChunks(api, file.file, { kind: 'convert', targetFormat: targetFormat as DocumentFormat }, fraction =>
+                updateFile(file.id, { progress: Math.round(fraction * 100) })
+            );
+            if (!('job' in result)) throw new Error(t('tools.uploads.unexpectedResult'));
+
+            updateFile(file.id, { status: 'queued', progress: 0 });
+            rememberConversion(result.job);
+            const job = await pollConversionJob(result.job.id, file.id);
+            if (job.status === 'failed') throw new Error(job.error);
+
+            if (download) {
+                downloadUrl(`/api/convert/jobs/${job.id}/result`, job.resultFileName);
+                setMessage(t('tools.convert.succeeded'));
+            }
+            return job;
+        } catch (error) {
+            updateFile(file.id, { status: 'failed' });
+            setMessage(t('tools.convert.failed', { error: (error as Error).message }));
+            return null;
+        } finally {
+            setInterruptedUploads(pendingUploads());
+        }
+    };
+
+    // 批量转换，开启打包时所有结果合并为一个 ZIP 下载
+    const convertDocuments = async (documents: FileItem[], targetFormat: string) => {
+        const jobs = (await Promise.all(documents.map(file => convertDocument(file, targetFormat, !bundleResults)))).filter(Boolean);
+        if (bundleResults && jobs.length) {
+            downloadUrl(conversionArchiveUrl(jobs), 'converted-documents.zip');
+            setMessage(t('tools.convert.bundled', { count: jobs.length }));
+        }
+    };
+
+    const conversionArchiveUrl = (jobs: ConversionJob[]) =>
+        `/api/convert/jobs/archive?${new URLSearchParams(jobs.map(job => ['id', job.id]))}`;
+
+    const downloadUrl = (href: string, fileName: string) => {
+        const link = document.createElement('a');
+        link.href = href;
+        link.download = fileName;
+        link.click();
+    };
+
+    useEffect(() => {
+        const pending = (job: ConversionJob) => job.status === 'queued' || job.status === 'running';
+        // 超过轮询期限仍未完成的任务已经没有结果，直接丢弃
+        const stored = (JSON.parse(localStorage.getItem(recentConversionsKey) || '[]') as ConversionJob[]).filter(
+            job => !pending(job) || Date.now() < job.createdAt + conversionPollTimeout
+        );
+        setRecentConversions(stored);
+        setInterruptedUploads(pendingUploads());
+        // 页面刷新前仍在进行的任务，继续轮询其状态
+        stored.filter(pending).forEach(job => pollConversionJob(job.id).catch(() => undefined));
+    }, []);
+
+    useEffect(() => {
+        localStorage.setItem(recentConversionsKey, JSON.stringify(recentConversions));
+    }, [recentConversions]);
+
+    // 图片压缩 - 服务端实现，网络不可用时退回到浏览器端压缩
+    const compressImages = async (images: FileItem[]) => {
         setLoading(true);
         setMessage('');
-        
+
+        const formData = new FormData();
+        images.filter(image => image.type.startsWith('image/')).forEach(image => formData.append('file', image.file));
+        formData.append('quality', String(quality));
+        formData.append('maxDimension', String(maxDimension));
+        formData.append('format', imageFormat);
+        if (bundleResults) formData.append('archive', 'true');
+
         try {
-            const formData = new FormData();
-            formData.append('file', file.file);
-            formData.append('targetFormat', targetFormat);
-
-            // 这里应该调用Netlify Functions
-            const response = await fetch('/api/convert', {
-                method: 'POST',
-                body: formData,
-            });
-
-            if (response.ok) {
-                const blob = await response.blob();
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = `converted-${file.name.split('.')[0]}.${targetFormat}`;
-                link.click();
+            if (bundleResults) {
+                const url = URL.createObjectURL(await api.compressImagesToArchive(formData));
+                downloadUrl(url, 'compressed-images.zip');
                 URL.revokeObjectURL(url);
-                setMessage(`文档转换成功！`);
-            } else {
-                throw new Error('转换失败');
+                setMessage(t('tools.compress.bundled', { count: images.length }));
+                setLoading(false);
+                return;
+            }
+
+            const data = await api.compressImages(formData);
+            for (const image of data.images) {
+                downloadUrl(image.dataUrl, `compressed-${image.name}`);
             }
+
+            const savedBytes = data.totalOriginalSize - data.totalCompressedSize;
+            const savedPercent = ((savedBytes / data.totalOriginalSize) * 100).toFixed(1);
+            const skipped = data.errors.length ? t('tools.compress.skipped', { count: data.errors.length }) : '';
+            setMessage(t('tools.compress.succeeded', { saved: formatFileSize(savedBytes), percent: savedPercent, skipped }));
         } catch (error) {
-            setMessage('转换失败: ' + (error as Error).message);
+            // 离线或服务端无响应时（status 为 0），改用 canvas 在本地压缩
+            if (error instanceof ApiRequestError && error.status === 0) {
+                setLoading(false);
+                return compressImagesInBrowser(images);
+            }
+            setMessage(t('tools.compress.failed', { error: (error as Error).message }));
         }
         setLoading(false);
     };
 
-    // 图片压缩 - 前端实现
-    const compressImages = async (images: FileItem[]) => {
+    // 图片压缩 - 前端实现（离线备用）
+    const compressImagesInBrowser = async (images: FileItem[]) => {
         setLoading(true);
         setMessage('');
         
@@ -91,7 +250,7 @@ const ToolsApp = () => {
                     img.onload = () => {
                         // 计算新尺寸（可选：添加尺寸限制）
                         let { width, height } = img;
-                        const maxSize = 1920;
+                        const maxSize = maxDimension;
                         
                         if (width > maxSize || height > maxSize) {
                             const ratio = Math.min(maxSize / width, maxSize / height);
@@ -116,7 +275,7 @@ const ToolsApp = () => {
                                 URL.revokeObjectURL(url);
                             }
                             resolve(void 0);
-                        }, 'image/jpeg', quality / 100);
+                        }, imageFormat === 'png' || imageFormat === 'webp' ? `image/${imageFormat}` : 'image/jpeg', quality / 100);
                     };
                     img.src = URL.createObjectURL(image.file);
                 });
@@ -124,45 +283,131 @@ const ToolsApp = () => {
             
             const savedBytes = totalOriginalSize - totalCompressedSize;
             const savedPercent = ((savedBytes / totalOriginalSize) * 100).toFixed(1);
-            setMessage(`压缩完成！节省了 ${formatFileSize(savedBytes)} (${savedPercent}%)`);
+            setMessage(t('tools.compress.succeededOffline', { saved: formatFileSize(savedBytes), percent: savedPercent }));
         } catch (error) {
-            setMessage('压缩失败: ' + (error as Error).message);
+            setMessage(t('tools.compress.failed', { error: (error as Error).message }));
         }
         setLoading(false);
     };
 
+    // 读取当前文件夹的内容
+    const loadFolder = async (path: string) => {
+        try {
+            setFolder(await api.listDirectory(path));
+        } catch (error) {
+            setMessage(t('tools.manage.loadFailed', { error: (error as Error).message }));
+        }
+    };
+
+    const toggleSelectedPath = (path: string, selected: boolean) => {
+        setSelectedPaths(prev => (selected ? [...prev, path] : prev.filter(p => p !== path)));
+    };
+
+    const refreshFolder = () => {
+        setSelectedPaths([]);
+        setFolderVersion(v => v + 1);
+    };
+
+    useEffect(() => {
+        if (activeTab === 'manage') loadFolder(currentPath);
+    }, [activeTab, currentPath, folderVersion]);
+
+    // 上传文件到当前文件夹
+    const uploadToFolder = async (uploadedFiles: FileList | null) => {
+        if (!uploadedFiles?.length) return;
+
+        let count = 0;
+        try {
+            for (const file of Array.from(uploadedFiles)) {
+                await uploadInChunks(api, file, { kind: 'files', path: currentPath }, fraction =>
+                    setMessage(t('tools.uploads.progress', { name: file.name, percent: Math.round(fraction * 100) }))
+                );
+                count++;
+            }
+            setMessage(t('tools.manage.uploaded', { count }));
+        } catch (error) {
+            setMessage(t('tools.manage.uploadFailed', { error: (error as Error).message }));
+        }
+        setInterruptedUploads(pendingUploads());
+        refreshFolder();
+    };
+
+    // 继续被中断的上传：浏览器无法保留文件本身，需要用户重新选择同一个文件
+    const resumeUpload = async (upload: PendingUpload, file: File | undefined) => {
+        if (!file) return;
+        if (file.name !== upload.fileName || file.size !== upload.size) {
+            setMessage(t('tools.uploads.wrongFile', { name: upload.fileName }));
+            return;
+        }
+
+        try {
+            const result = await uploadInChunks(api, file, upload.target, fraction =>
+                setMessage(t('tools.uploads.progress', { name: file.name, percent: Math.round(fraction * 100) }))
+            );
+            if ('job' in result) {
+                rememberConversion(result.job);
+                setMessage(t('tools.uploads.resumedConversion', { name: file.name }));
+                pollConversionJob(result.job.id).catch(() => undefined);
+            } else {
+                setMessage(t('tools.manage.uploaded', { count: 1 }));
+                refreshFolder();
+            }
+        } catch (error) {
+            setMessage(t('tools.manage.uploadFailed', { error: (error as Error).message }));
+        }
+        setInterruptedUploads(pendingUploads());
+    };
+
+    const discardUpload = async (upload: PendingUpload) => {
+        await abortUpload(api, upload.id);
+        setInterruptedUploads(pendingUploads());
+    };
+
     // 文件管理操作
-    const handleFileOperation = (operation: string, fileIds: number[]) => {
-        switch (operation) {
-            case 'rename':
-                const newName = prompt('请输入新的文件名前缀:');
-                if (newName) {
-                    setFiles(prev => prev.map(f => 
-                        fileIds.includes(f.id) 
-                            ? { ...f, name: `${newName}-${f.id}.${f.name.split('.').pop()}` }
-                            : f
-                    ));
-                    setMessage(`已重命名 ${fileIds.length} 个文件`);
+    const handleFileOperation = async (operation: string, paths: string[]) => {
+        try {
+            switch (operation) {
+                case 'mkdir': {
+                    const name = prompt(t('tools.manage.promptFolderName'));
+                    if (!name) return;
+                    await api.createFolder(currentPath ? `${currentPath}/${name}` : name);
+                    setMessage(t('tools.manage.folderCreated', { name }));
+                    break;
                 }
-                break;
-            case 'delete':
-                if (confirm(`确定要删除选中的 ${fileIds.length} 个文件吗？`)) {
-                    setFiles(prev => prev.filter(f => !fileIds.includes(f.id)));
-                    setSelectedFiles([]);
-                    setMessage(`已删除 ${fileIds.length} 个文件`);
+                case 'rename': {
+                    const newName = prompt(t('tools.manage.promptRenamePrefix'));
+                    if (!newName) return;
+                    for (const [index, path] of paths.entries()) {
+                        const oldName = path.split('/').pop();
+                        const extension = oldName.includes('.') ? `.${oldName.split('.').pop()}` : '';
+                        const suffix = paths.length > 1 ? `-${index + 1}` : '';
+                        await api.renameEntry(path, `${newName}${suffix}${extension}`);
+                    }
+                    setMessage(t('tools.manage.renamed', { count: paths.length }));
+                    break;
                 }
-                break;
-            case 'copy':
-                setMessage(`已复制 ${fileIds.length} 个文件到剪贴板`);
-                break;
-            case 'move':
-                const folder = prompt('请输入目标文件夹名称:');
-                if (folder) {
-                    setMessage(`已将 ${fileIds.length} 个文件移动到 ${folder} 文件夹`);
+                case 'delete':
+                    if (!confirm(t('tools.manage.confirmDelete', { count: paths.length }))) return;
+                    for (const path of paths) {
+                        await api.deleteEntry(path);
+                    }
+                    setMessage(t('tools.manage.deleted', { count: paths.length }));
+                    break;
+                case 'copy':
+                case 'move': {
+                    const destination = prompt(t('tools.manage.promptDestination'), currentPath);
+                    if (destination === null) return;
+                    for (const path of paths) {
+                        await (operation === 'copy' ? api.copyEntry(path, destination) : api.moveEntry(path, destination));
+                    }
+                    setMessage(t(operation === 'copy' ? 'tools.manage.copied' : 'tools.manage.moved', { count: paths.length, destination: destination || t('common.rootFolder') }));
+                    break;
                 }
-                break;
+            }
+        } catch (error) {
+            setMessage(t('tools.manage.failed', { error: (error as Error).message }));
         }
-        setSelectedFiles([]);
+        refreshFolder();
     };
 
     // 格式化文件大小
@@ -174,14 +419,19 @@ const ToolsApp = () => {
         return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
     };
 
+    const documentFiles = files.filter(f =>
+        f.type.includes('document') ||
+        f.name.match(/\.(pdf|docx|txt|md|html?)$/i)
+    );
+
     return (
         <div className="w-full max-w-6xl mx-auto">
             {/* 导航标签 */}
             <div className="flex space-x-4 mb-8">
                 {[
-                    { id: 'convert', icon: FileText, label: '文档转换' },
-                    { id: 'manage', icon: Folder, label: '文件管理' },
-                    { id: 'compress', icon: Image, label: '图片压缩' }
+                    { id: 'convert', icon: FileText, label: t('tools.tabs.convert') },
+                    { id: 'manage', icon: Folder, label: t('tools.tabs.manage') },
+                    { id: 'compress', icon: ImageIcon, label: t('tools.tabs.compress') }
                 ].map(tab => (
                     <button
                         key={tab.id}
@@ -198,12 +448,57 @@ const ToolsApp = () => {
                 ))}
             </div>
 
+            {/* 被中断的上传 */}
+            {interruptedUploads.length > 0 && (
+                <div className="bg-white/10 backdrop-blur rounded-xl shadow-lg p-6 mb-8">
+                    <h3 className="text-lg font-semibold text-white">{t('tools.uploads.title')}</h3>
+                    <p className="text-sm text-gray-300 mb-4">{t('tools.uploads.hint')}</p>
+                    <div className="space-y-2">
+                        {interruptedUploads.map(upload => (
+                            <div key={upload.id} className="flex items-center justify-between gap-4 px-4 py-2 bg-white/5 rounded-lg text-sm">
+                                <div>
+                                    <p className="text-white">
+                                        {upload.fileName} →{' '}
+                                        {upload.target.kind === 'convert' ? upload.target.targetFormat.toUpperCase() : upload.target.path || t('common.rootFolder')}
+                                    </p>
+                                    <p className="text-gray-300">{formatFileSize(upload.size)}</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => {
+                                            resumingUpload.current = upload;
+                                            resumeInputRef.current?.click();
+                                        }}
+                                        disabled={uploadDisabled && upload.target.kind === 'files'}
+                                        className="btn disabled:opacity-50"
+                                    >
+                                        {t('tools.uploads.resume')}
+                                    </button>
+                                    <button onClick={() => discardUpload(upload)} className="btn bg-red-600 hover:bg-red-700">
+                                        {t('tools.uploads.discard')}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <input
+                        ref={resumeInputRef}
+                        type="file"
+                        className="hidden"
+                        onChange={(e) => {
+                            resumeUpload(resumingUpload.current, e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            )}
+
             {/* 文档转换功能 */}
             {activeTab === 'convert' && (
                 <div className="bg-white/10 backdrop-blur rounded-xl shadow-lg p-8">
                     <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
                         <FileText className="mr-3 text-primary" />
-                        文档格式转换
+                        {t('tools.convert.title')}
                     </h2>
                     
                     <div className="grid md:grid-cols-2 gap-8">
@@ -213,13 +508,13 @@ const ToolsApp = () => {
                                 onClick={() => fileInputRef.current?.click()}
                             >
                                 <Upload className="mx-auto mb-4 text-gray-300" size={48} />
-                                <p className="text-lg text-white">点击或拖拽上传文档</p>
-                                <p className="text-sm text-gray-300 mt-2">支持 PDF, DOC, DOCX, TXT, MD</p>
+                                <p className="text-lg text-white">{t('tools.convert.dropFiles')}</p>
+                                <p className="text-sm text-gray-300 mt-2">{t('tools.convert.supportedFiles')}</p>
                                 <input
                                     ref={fileInputRef}
                                     type="file"
                                     className="hidden"
-                                    accept=".pdf,.doc,.docx,.txt,.md"
+                                    accept=".pdf,.docx,.txt,.md,.html,.zip"
                                     multiple
                                     onChange={(e) => handleFileUpload(e.target.files)}
                                 />
@@ -227,45 +522,114 @@ const ToolsApp = () => {
                             
                             <div className="mt-6">
                                 <label className="block text-sm font-medium text-white mb-2">
-                                    目标格式
+                                    {t('tools.convert.targetFormat')}
                                 </label>
                                 <select 
                                     id="convertFormat"
                                     className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900"
                                 >
                                     <option value="pdf">PDF</option>
-                                    <option value="docx">Word文档</option>
-                                    <option value="txt">纯文本</option>
+                                    <option value="docx">{t('tools.convert.formatDocx')}</option>
+                                    <option value="txt">{t('tools.convert.formatTxt')}</option>
                                     <option value="md">Markdown</option>
+                                    <option value="html">HTML</option>
                                 </select>
                             </div>
+                            <label className="flex items-center gap-2 mt-4 text-sm text-white">
+                                <input
+                                    type="checkbox"
+                                    checked={bundleResults}
+                                    onChange={(e) => setBundleResults(e.target.checked)}
+                                    className="w-4 h-4 text-primary"
+                                />
+                                {t('tools.bundleResults')}
+                            </label>
                         </div>
                         
                         <div>
-                            <h3 className="text-lg font-semibold mb-4 text-white">待转换文件</h3>
+                            <h3 className="text-lg font-semibold mb-4 text-white">{t('tools.convert.pendingFiles')}</h3>
                             <div className="space-y-3 max-h-96 overflow-y-auto">
-                                {files.filter(f => 
-                                    f.type.includes('document') || 
-                                    f.name.match(/\.(pdf|doc|docx|txt|md)$/i)
-                                ).map(file => (
-                                    <div key={file.id} className="flex items-center justify-between p-4 bg-white/10 rounded-lg">
-                                        <div>
-                                            <p className="font-medium text-white">{file.name}</p>
-                                            <p className="text-sm text-gray-300">{formatFileSize(file.size)}</p>
+                                {documentFiles.map(file => (
+                                    <div key={file.id} className="p-4 bg-white/10 rounded-lg">
+                                        <div className="flex items-center justify-between">
+                                            <div>
+                                                <p className="font-medium text-white">{file.name}</p>
+                                                <p className="text-sm text-gray-300">
+                                                    {formatFileSize(file.size)}
+                                                    {conversionStatusLabels[file.status] && ` · ${conversionStatusLabels[file.status]}`}
+                                                </p>
+                                            </div>
+                                            <button 
+                                                onClick={() => {
+                                                    const select = document.getElementById('convertFormat') as HTMLSelectElement;
+                                                    convertDocument(file, select.value);
+                                                }}
+                                                disabled={['uploading', 'queued', 'running'].includes(file.status)}
+                                                className="btn disabled:opacity-50"
+                                            >
+                                                {['uploading', 'queued', 'running'].includes(file.status) ? t('tools.convert.converting') : t('tools.convert.convert')}
+                                            </button>
                                         </div>
-                                        <button 
-                                            onClick={() => {
-                                                const select = document.getElementById('convertFormat') as HTMLSelectElement;
-                                                convertDocument(file, select.value);
-                                            }}
-                                            disabled={loading}
-                                            className="btn disabled:opacity-50"
-                                        >
-                                            {loading ? '转换中...' : '转换'}
-                                        </button>
+                                        {file.progress !== undefined && (
+                                            <div className="mt-3 h-2 bg-white/10 rounded-full overflow-hidden">
+                                                <div
+                                                    className={`h-full transition-all ${file.status === 'failed' ? 'bg-red-600' : 'bg-primary'}`}
+                                                    style={{ width: `${file.progress}%` }}
+                                                />
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
+
+                            {documentFiles.length > 1 && (
+                                <button 
+                                    onClick={() => {
+                                        const select = document.getElementById('convertFormat') as HTMLSelectElement;
+                                        convertDocuments(documentFiles, select.value);
+                                    }}
+                                    disabled={documentFiles.some(f => ['uploading', 'queued', 'running'].includes(f.status))}
+                                    className="w-full mt-4 btn disabled:opacity-50"
+                                >
+                                    {t('tools.convert.convertAll')}
+                                </button>
+                            )}
+
+                            {recentConversions.length > 0 && (
+                                <>
+                                    <div className="flex items-center justify-between mt-8 mb-4">
+                                        <h3 className="text-lg font-semibold text-white">{t('tools.convert.recent')}</h3>
+                                        {recentConversions.some(job => job.status === 'done') && (
+                                            <a
+                                                href={conversionArchiveUrl(recentConversions.filter(job => job.status === 'done'))}
+                                                download="converted-documents.zip"
+                                                className="flex items-center gap-1 text-sm text-primary"
+                                            >
+                                                <Download size={16} />
+                                                {t('tools.convert.downloadAll')}
+                                            </a>
+                                        )}
+                                    </div>
+                                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                                        {recentConversions.map(job => (
+                                            <div key={job.id} className="flex items-center justify-between px-4 py-2 bg-white/5 rounded-lg text-sm">
+                                                <div>
+                                                    <p className="text-white">{job.fileName} → {job.targetFormat.toUpperCase()}</p>
+                                                    <p className="text-gray-300">
+                                                        {new Date(job.createdAt).toLocaleString(locale)} · {conversionStatusLabels[job.status]}
+                                                        {job.status === 'running' && ` ${job.progress}%`}
+                                                    </p>
+                                                </div>
+                                                {job.status === 'done' && (
+                                                    <a href={`/api/convert/jobs/${job.id}/result`} download={job.resultFileName} className="text-primary" title={t('common.download')}>
+                                                        <Download size={18} />
+                                                    </a>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -276,22 +640,26 @@ const ToolsApp = () => {
                 <div className="bg-white/10 backdrop-blur rounded-xl shadow-lg p-8">
                     <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
                         <Folder className="mr-3 text-primary" />
-                        文件管理
+                        {t('tools.manage.title')}
                     </h2>
                     
                     <div className="mb-6">
                         <div 
-                            className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-primary transition-colors cursor-pointer bg-white/5"
-                            onClick={() => fileInputRef.current?.click()}
+                            className={`border-2 border-dashed border-gray-300 rounded-lg p-8 text-center bg-white/5 ${
+                                uploadDisabled ? 'opacity-50 cursor-not-allowed' : 'hover:border-primary transition-colors cursor-pointer'
+                            }`}
+                            onClick={() => !uploadDisabled && fileInputRef.current?.click()}
                         >
                             <Upload className="mx-auto mb-4 text-gray-300" size={48} />
-                            <p className="text-lg text-white">批量上传文件进行管理</p>
+                            <p className="text-lg text-white">
+                                {uploadDisabled ? t('errors.uploadsDisabled') : t('tools.manage.uploadTo', { path: currentPath || t('common.rootFolder') })}
+                            </p>
                             <input
                                 ref={fileInputRef}
                                 type="file"
                                 multiple
                                 className="hidden"
-                                onChange={(e) => handleFileUpload(e.target.files)}
+                                onChange={(e) => uploadToFolder(e.target.files)}
                             />
                         </div>
                     </div>
@@ -299,62 +667,113 @@ const ToolsApp = () => {
                     {/* 批量操作工具栏 */}
                     <div className="flex flex-wrap gap-4 mb-6">
                         <button 
-                            onClick={() => handleFileOperation('rename', selectedFiles)}
-                            disabled={selectedFiles.length === 0}
+                            onClick={() => handleFileOperation('mkdir', [])}
+                            className="btn"
+                        >
+                            <FolderPlus size={16} />
+                            <span>{t('tools.manage.newFolder')}</span>
+                        </button>
+                        <button 
+                            onClick={() => handleFileOperation('rename', selectedPaths)}
+                            disabled={selectedPaths.length === 0}
                             className="btn disabled:opacity-50"
                         >
                             <Edit size={16} />
-                            <span>批量重命名</span>
+                            <span>{t('tools.manage.rename')}</span>
                         </button>
                         <button 
-                            onClick={() => handleFileOperation('copy', selectedFiles)}
-                            disabled={selectedFiles.length === 0}
+                            onClick={() => handleFileOperation('copy', selectedPaths)}
+                            disabled={selectedPaths.length === 0}
                             className="btn disabled:opacity-50"
                         >
                             <Copy size={16} />
-                            <span>复制</span>
+                            <span>{t('tools.manage.copy')}</span>
                         </button>
                         <button 
-                            onClick={() => handleFileOperation('move', selectedFiles)}
-                            disabled={selectedFiles.length === 0}
+                            onClick={() => handleFileOperation('move', selectedPaths)}
+                            disabled={selectedPaths.length === 0}
                             className="btn disabled:opacity-50"
                         >
                             <Move size={16} />
-                            <span>移动</span>
+                            <span>{t('tools.manage.move')}</span>
                         </button>
                         <button 
-                            onClick={() => handleFileOperation('delete', selectedFiles)}
-                            disabled={selectedFiles.length === 0}
+                            onClick={() => handleFileOperation('delete', selectedPaths)}
+                            disabled={selectedPaths.length === 0}
                             className="btn disabled:opacity-50 bg-red-600 hover:bg-red-700"
                         >
                             <Trash2 size={16} />
-                            <span>删除</span>
+                            <span>{t('tools.manage.delete')}</span>
                         </button>
                     </div>
 
-                    {/* 文件列表 */}
-                    <div className="space-y-2 max-h-96 overflow-y-auto">
-                        {files.map(file => (
-                            <div key={file.id} className="flex items-center space-x-4 p-4 bg-white/10 rounded-lg">
-                                <input
-                                    type="checkbox"
-                                    checked={selectedFiles.includes(file.id)}
-                                    onChange={(e) => {
-                                        if (e.target.checked) {
-                                            setSelectedFiles(prev => [...prev, file.id]);
-                                        } else {
-                                            setSelectedFiles(prev => prev.filter(id => id !== file.id));
-                                        }
-                                    }}
-                                    className="w-4 h-4 text-primary"
-                                />
-                                <FileText className="text-gray-300" size={20} />
-                                <div className="flex-1">
-                                    <p className="font-medium text-white">{file.name}</p>
-                                    <p className="text-sm text-gray-300">{formatFileSize(file.size)}</p>
-                                </div>
+                    <div className="grid md:grid-cols-[16rem_1fr] gap-6">
+                        {/* 文件夹树 */}
+                        <ul className="p-4 bg-white/5 rounded-lg max-h-96 overflow-y-auto">
+                            <FolderTree path="" name={t('common.rootFolder')} currentPath={currentPath} version={folderVersion} onSelect={(path) => {
+                                setSelectedPaths([]);
+                                setCurrentPath(path);
+                            }} />
+                        </ul>
+
+                        <div>
+                            {/* 路径导航 */}
+                            <div className="flex flex-wrap items-center gap-1 mb-4 text-sm text-gray-300">
+                                {['', ...currentPath.split('/').filter(Boolean)].map((segment, index, segments) => {
+                                    const path = segments.slice(1, index + 1).join('/');
+                                    return (
+                                        <React.Fragment key={path}>
+                                            {index > 0 && <span>/</span>}
+                                            <button onClick={() => setCurrentPath(path)} className="px-1 hover:text-white">
+                                                {segment || t('common.rootFolder')}
+                                            </button>
+                                        </React.Fragment>
+                                    );
+                                })}
                             </div>
-                        ))}
+
+                            {/* 文件列表 */}
+                            <div className="space-y-2 max-h-96 overflow-y-auto">
+                                {folder?.directories.map(name => {
+                                    const path = currentPath ? `${currentPath}/${name}` : name;
+                                    return (
+                                        <div key={path} className="flex items-center space-x-4 p-4 bg-white/10 rounded-lg">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedPaths.includes(path)}
+                                                onChange={(e) => toggleSelectedPath(path, e.target.checked)}
+                                                className="w-4 h-4 text-primary"
+                                            />
+                                            <Folder className="text-gray-300" size={20} />
+                                            <button onClick={() => setCurrentPath(path)} className="flex-1 text-left font-medium text-white hover:underline">
+                                                {name}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                {folder?.files.map(file => (
+                                    <div key={file.path} className="flex items-center space-x-4 p-4 bg-white/10 rounded-lg">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedPaths.includes(file.path)}
+                                            onChange={(e) => toggleSelectedPath(file.path, e.target.checked)}
+                                            className="w-4 h-4 text-primary"
+                                        />
+                                        <FileText className="text-gray-300" size={20} />
+                                        <div className="flex-1">
+                                            <p className="font-medium text-white">{file.name}</p>
+                                            <p className="text-sm text-gray-300">{formatFileSize(file.size)}</p>
+                                        </div>
+                                        <a href={`/api/files/download?${new URLSearchParams({ path: file.path })}`} className="text-gray-300 hover:text-white" title={t('common.download')}>
+                                            <Download size={18} />
+                                        </a>
+                                    </div>
+                                ))}
+                                {folder && !folder.directories.length && !folder.files.length && (
+                                    <p className="p-4 text-gray-300">{t('tools.manage.emptyFolder')}</p>
+                                )}
+                            </div>
+                        </div>
                     </div>
                 </div>
             )}
@@ -363,8 +782,8 @@ const ToolsApp = () => {
             {activeTab === 'compress' && (
                 <div className="bg-white/10 backdrop-blur rounded-xl shadow-lg p-8">
                     <h2 className="text-2xl font-bold text-white mb-6 flex items-center">
-                        <Image className="mr-3 text-primary" />
-                        图片压缩优化
+                        <ImageIcon className="mr-3 text-primary" />
+                        {t('tools.compress.title')}
                     </h2>
                     
                     <div className="grid md:grid-cols-2 gap-8">
@@ -373,14 +792,14 @@ const ToolsApp = () => {
                                 className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-primary transition-colors cursor-pointer bg-white/5"
                                 onClick={() => fileInputRef.current?.click()}
                             >
-                                <Image className="mx-auto mb-4 text-gray-300" size={48} />
-                                <p className="text-lg text-white">上传图片进行压缩</p>
-                                <p className="text-sm text-gray-300 mt-2">支持 JPG, PNG, WebP</p>
+                                <ImageIcon className="mx-auto mb-4 text-gray-300" size={48} />
+                                <p className="text-lg text-white">{t('tools.compress.dropFiles')}</p>
+                                <p className="text-sm text-gray-300 mt-2">{t('tools.compress.supportedFiles')}</p>
                                 <input
                                     ref={fileInputRef}
                                     type="file"
                                     multiple
-                                    accept="image/*"
+                                    accept="image/*,.zip"
                                     className="hidden"
                                     onChange={(e) => handleFileUpload(e.target.files)}
                                 />
@@ -389,7 +808,7 @@ const ToolsApp = () => {
                             <div className="mt-6 space-y-4">
                                 <div>
                                     <label className="block text-sm font-medium text-white mb-2">
-                                        压缩质量: {quality}%
+                                        {t('tools.compress.quality', { quality })}
                                     </label>
                                     <input
                                         type="range"
@@ -400,11 +819,49 @@ const ToolsApp = () => {
                                         className="w-full"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-white mb-2">
+                                        {t('tools.compress.maxDimension')}
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="16"
+                                        max="8192"
+                                        value={maxDimension}
+                                        onChange={(e) => setMaxDimension(Number(e.target.value))}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-white mb-2">
+                                        {t('tools.compress.outputFormat')}
+                                    </label>
+                                    <select
+                                        value={imageFormat}
+                                        onChange={(e) => setImageFormat(e.target.value)}
+                                        className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white text-gray-900"
+                                    >
+                                        <option value="">{t('tools.compress.keepFormat')}</option>
+                                        <option value="jpeg">JPEG</option>
+                                        <option value="webp">WebP</option>
+                                        <option value="avif">AVIF</option>
+                                        <option value="png">PNG</option>
+                                    </select>
+                                </div>
                             </div>
+                            <label className="flex items-center gap-2 mt-4 text-sm text-white">
+                                <input
+                                    type="checkbox"
+                                    checked={bundleResults}
+                                    onChange={(e) => setBundleResults(e.target.checked)}
+                                    className="w-4 h-4 text-primary"
+                                />
+                                {t('tools.bundleResults')}
+                            </label>
                         </div>
                         
                         <div>
-                            <h3 className="text-lg font-semibold mb-4 text-white">图片列表</h3>
+                            <h3 className="text-lg font-semibold mb-4 text-white">{t('tools.compress.images')}</h3>
                             <div className="space-y-3 max-h-96 overflow-y-auto">
                                 {files.filter(f => f.type.startsWith('image/')).map(file => (
                                     <div key={file.id} className="flex items-center justify-between p-4 bg-white/10 rounded-lg">
@@ -417,7 +874,7 @@ const ToolsApp = () => {
                                             disabled={loading}
                                             className="btn disabled:opacity-50"
                                         >
-                                            {loading ? '压缩中...' : '压缩'}
+                                            {loading ? t('tools.compress.compressing') : t('tools.compress.compress')}
                                         </button>
                                     </div>
                                 ))}
@@ -429,7 +886,7 @@ const ToolsApp = () => {
                                     disabled={loading}
                                     className="w-full mt-4 btn disabled:opacity-50"
                                 >
-                                    {loading ? '批量压缩中...' : '批量压缩所有图片'}
+                                    {loading ? t('tools.compress.compressingAll') : t('tools.compress.compressAll')}
                                 </button>
                             )}
                         </div>
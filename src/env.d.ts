@@ -0,0 +1,5 @@
+declare namespace App {
+    interface Locals {
+        locale: import('./utils/i18n').Locale;
+    }
+}
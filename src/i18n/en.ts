@@ -0,0 +1,489 @@
+// English messages. This catalog defines the keys: every other locale must provide the same ones (see src/utils/i18n.ts).
+// "{name}" placeholders are filled in from the parameters passed to t().
+
+const en = {
+    common: {
+        rootFolder: 'Root folder',
+        download: 'Download',
+        language: 'Language'
+    },
+    header: {
+        home: 'Home',
+        tools: 'Tools',
+        revalidation: 'Revalidation',
+        imageCdn: 'Image CDN',
+        edge: 'Edge Function',
+        experiments: 'Experiments',
+        blobs: 'Blobs'
+    },
+    markdown: {
+        contents: 'Contents',
+        note: 'Note',
+        warning: 'Warning'
+    },
+    contextAlert: {
+        noNetlifyContext: `
+For full functionality, either run this site locally via \`netlify dev\`
+([see docs](https://docs.netlify.com/cli/local-development/)) or deploy it to Netlify.
+`
+    },
+    tools: {
+        tabs: {
+            convert: 'Document conversion',
+            manage: 'File manager',
+            compress: 'Image compression'
+        },
+        status: {
+            uploading: 'Uploading',
+            queued: 'Queued',
+            running: 'Converting',
+            done: 'Done',
+            failed: 'Failed'
+        },
+        uploads: {
+            title: 'Interrupted uploads',
+            hint: 'Pick the same file again to send the parts that are still missing.',
+            resume: 'Resume',
+            discard: 'Discard',
+            progress: 'Uploading {name}: {percent}%',
+            wrongFile: 'That is not the interrupted file, please pick {name}',
+            resumedConversion: 'Uploaded {name}, the conversion is running',
+            unexpectedResult: 'Unexpected upload result'
+        },
+        unzipFailed: 'Could not extract {name}: {error}',
+        bundleResults: 'Download as a ZIP archive (with a file manifest)',
+        convert: {
+            title: 'Document format conversion',
+            dropFiles: 'Click or drop documents here to upload',
+            supportedFiles: 'PDF, DOCX, TXT, MD, HTML and ZIP archives are supported',
+            targetFormat: 'Target format',
+            formatDocx: 'Word document',
+            formatTxt: 'Plain text',
+            pendingFiles: 'Files to convert',
+            converting: 'Converting...',
+            convert: 'Convert',
+            convertAll: 'Convert all documents',
+            recent: 'Recent conversions',
+            downloadAll: 'Download all',
+            succeeded: 'Document converted!',
+            failed: 'Conversion failed: {error}',
+            timedOut: 'The conversion took too long and was given up',
+            bundled: 'Converted {count} documents and downloaded them as one archive'
+        },
+        manage: {
+            title: 'File manager',
+            uploadTo: 'Upload files to {path}',
+            newFolder: 'New folder',
+            rename: 'Rename',
+            copy: 'Copy',
+            move: 'Move',
+            delete: 'Delete',
+            emptyFolder: 'This folder is empty',
+            loadFailed: 'Could not read the folder: {error}',
+            uploaded: 'Uploaded {count} files',
+            uploadFailed: 'Upload failed: {error}',
+            promptFolderName: 'Name of the new folder:',
+            folderCreated: 'Created folder {name}',
+            promptRenamePrefix: 'New file name prefix:',
+            renamed: 'Renamed {count} files',
+            confirmDelete: 'Delete the {count} selected files?',
+            deleted: 'Deleted {count} files',
+            promptDestination: 'Destination folder (leave empty for the root folder):',
+            copied: 'Copied {count} files to {destination}',
+            moved: 'Moved {count} files to {destination}',
+            failed: 'Operation failed: {error}'
+        },
+        compress: {
+            title: 'Image compression',
+            dropFiles: 'Upload images to compress',
+            supportedFiles: 'JPG, PNG, WebP, AVIF, GIF, TIFF and ZIP archives are supported',
+            quality: 'Quality: {quality}%',
+            maxDimension: 'Maximum width or height (pixels)',
+            outputFormat: 'Output format',
+            keepFormat: 'Keep the original format',
+            images: 'Images',
+            compressing: 'Compressing...',
+            compress: 'Compress',
+            compressingAll: 'Compressing all...',
+            compressAll: 'Compress all images',
+            bundled: 'Done! Downloaded {count} images as one archive, see manifest.json for details',
+            skipped: ', {count} files could not be processed',
+            succeeded: 'Done! Saved {saved} ({percent}%){skipped}',
+            succeededOffline: 'Done (offline)! Saved {saved} ({percent}%)',
+            failed: 'Compression failed: {error}'
+        }
+    },
+    shapes: {
+        newTitle: 'New Shape',
+        editingTitle: 'Editing "{key}"',
+        name: 'Name',
+        edges: 'Edges',
+        growth: 'Growth',
+        size: 'Size',
+        angle: 'Gradient angle',
+        seed: 'Seed',
+        lockSeed: 'Lock seed',
+        colors: 'Colors',
+        colorStop: 'Color stop {index}',
+        addColor: 'Add a color stop',
+        removeColor: 'Remove the last color stop',
+        randomize: 'Randomize',
+        upload: 'Upload',
+        save: 'Save',
+        cancel: 'Cancel',
+        storedTitle: 'Objects in Blob Store',
+        search: 'Search by name',
+        sortNewest: 'Newest',
+        sortName: 'Name',
+        noMatches: 'No shapes match your search.',
+        empty: 'Please upload some shapes!',
+        loading: 'Loading...',
+        edit: 'Edit',
+        rename: 'Rename',
+        delete: 'Delete',
+        downloadSvg: 'Download SVG',
+        downloadPng: 'Download PNG',
+        copyEmbed: 'Copy embed code',
+        copied: 'Copied!',
+        copyFailed: 'Could not copy to the clipboard',
+        confirmDelete: 'Delete shape "{key}"?',
+        promptRename: 'New name for the shape:',
+        stored: 'Stored shape "{key}"',
+        history: {
+            show: 'History',
+            hide: 'Hide history',
+            loading: 'Loading history...',
+            version: 'Version {version}',
+            current: 'current',
+            created: 'Created',
+            updated: 'Updated',
+            renamed: 'Renamed from "{key}"',
+            restored: 'Restored version {version}',
+            savedBy: '{date} by {author}',
+            compare: 'Compare',
+            restore: 'Restore',
+            confirmRestore: 'Restore version {version}? The current parameters stay in the history.',
+            diffTitle: 'Changes from version {from} to the current version',
+            noChanges: 'Same parameters as the current version.'
+        }
+    },
+    collections: {
+        title: 'Collections',
+        create: 'New collection',
+        promptName: 'Name of the new collection:',
+        empty: 'No collections yet.',
+        shapeCount: '{count} shapes',
+        addSelected: 'Add selected shape',
+        removeShape: 'Remove {key} from the collection',
+        noShapes: 'Add shapes by selecting them above.',
+        delete: 'Delete collection',
+        confirmDelete: 'Delete collection "{name}"? Its share links stop working.',
+        shares: 'Share links',
+        noShares: 'Not shared yet.',
+        validFor: 'Valid for',
+        days: '{count} days',
+        share: 'Create share link',
+        linkCreated: 'Copy the link now, it won\'t be shown again:',
+        copy: 'Copy',
+        copied: 'Copied!',
+        active: 'Expires {date}',
+        expired: 'Expired {date}',
+        revoked: 'Revoked {date}',
+        revoke: 'Revoke',
+        confirmRevoke: 'Revoke this link? Anyone using it loses access right away.'
+    },
+    cache: {
+        secret: 'Revalidation secret',
+        author: 'Your name',
+        filter: 'Filter tags or routes',
+        noTags: 'No cache tags found.',
+        purge: 'Purge selected tags ({count})',
+        purging: 'Purging...',
+        invalidated: 'Invalidated: {tags}',
+        purgeFailed: 'Failed: {error}',
+        timeline: 'Purge timeline',
+        timelineLocked: 'Enter the revalidation secret to see past purges.',
+        loadTimeline: 'Show purges',
+        reload: 'Reload page'
+    },
+    validation: {
+        notObject: 'Must be a JSON object',
+        unknownField: 'Unknown field',
+        required: 'Required',
+        integerBetween: 'Must be an integer between {min} and {max}',
+        seed: 'Must be a non-negative integer',
+        name: 'Must be 1 to 64 letters, digits, "-" or "_", starting with a letter or digit',
+        reservedName: 'Must not be one of: {names}',
+        colors: 'Must be {min} to {max} hex colors, e.g. ["#2E3192", "#1BFFFF"]'
+    },
+    api: {
+        network: 'Could not reach the server: {error}',
+        timeout: 'The server did not answer within {seconds} seconds',
+        status: 'The request failed with HTTP status {status}',
+        invalidResponse: 'The server sent an unreadable response'
+    },
+    errors: {
+        methodNotAllowed: 'Method not allowed',
+        uploadsDisabled: 'Sorry, uploads are disabled',
+        shapeNotFound: 'Shape "{key}" does not exist',
+        shapeExists: 'Shape "{key}" already exists',
+        shapeListQuery: 'Expected sort to be one of {sorts} and limit between 1 and 100',
+        shapeVersionNotFound: 'Shape "{key}" has no version {version}',
+        shapeVersionQuery: 'Expected "from" and "to" to be version numbers',
+        shapeImportQuery: 'Expected onConflict to be one of {strategies} and fromLine to be a line number',
+        importTooLarge: 'Imports are limited to {max} MiB',
+        importLineJson: 'This line is not valid JSON',
+        importRecord: 'Expected an object with the shape\'s "parameters"',
+        importKeyMismatch: 'The key "{key}" does not match the shape\'s name "{name}"',
+        shapeListFailed: 'Failed listing shapes',
+        shapeKeyRequired: 'Expected a "key" query parameter',
+        collectionRequest: 'Expected a "name" of 1 to 80 characters, an optional "description" and at most {max} "shapeKeys"',
+        collectionNotFound: 'No collection "{id}"',
+        shareRequest: 'Expected "expiresInDays" to be a whole number between 1 and {max}',
+        shareNotFound: 'No share link "{id}"',
+        blobListFailed: 'Failed listing blobs',
+        shapeTooLarge: 'Shape payloads are limited to {max} bytes',
+        shapeNotJson: 'Expected the shape parameters as JSON',
+        shapeInvalid: 'Invalid shape parameters',
+        exportSize: 'Expected size to be an integer between {min} and {max}',
+        cacheTagsFailed: 'Failed listing cache tags',
+        imagesRequest: 'Expected multipart form data with one or more "file" fields',
+        imagesOptions: 'Expected quality between 1 and 100, maxDimension between 16 and 8192 and format one of: {formats}',
+        imageUnsupported: 'Not a supported image',
+        imagesNoneCompressed: 'None of the uploaded files could be compressed',
+        conversionRequest: 'Expected multipart form data with "file" and "targetFormat" fields',
+        conversionUnsupported: 'Converting {source} to {target} is not supported',
+        conversionFailed: 'Failed converting {name}',
+        conversionFailedWithReason: 'Conversion failed: {error}',
+        pdfUnsupportedCharacters: 'The document has characters that can\'t be drawn in a PDF: {characters}',
+        jobNotFound: 'No conversion job "{id}"',
+        jobTimedOut: 'Converting {name} stopped without finishing',
+        jobNotDone: 'Conversion job "{id}" is {status}',
+        jobResultMissing: 'Result of conversion job "{id}" is missing',
+        archiveRequest: 'Expected one or more "id" query parameters',
+        archiveNothingDone: 'None of the requested conversion jobs has finished',
+        invalidPath: 'Invalid path',
+        filesUploadRequest: 'Expected multipart form data with a "path" and one or more "file" fields',
+        invalidFileName: 'Invalid file name "{name}"',
+        filesCopyRequest: 'Expected a valid "path" and "destination" folder in the body',
+        filesRenameRequest: 'Expected a valid "path" and a new "name" without slashes in the body',
+        filesFolderRequest: 'Expected a valid folder "path" in the body',
+        pathNotFound: '"{path}" does not exist',
+        pathExists: '"{path}" already exists',
+        copyIntoItself: 'Cannot copy "{path}" into itself',
+        uploadRequest: 'Expected a JSON body with a "fileName", a positive "size", the hex "sha256" of the file and a "target"',
+        fileTooLarge: '{name} is too large, files here are limited to {max} MB',
+        fileTypeNotAllowed: '{name} is not an accepted file type (its content is {type})',
+        fileTypeMismatch: 'The content of {name} ({type}) does not match its extension',
+        uploadQuotaExceeded: 'Daily upload quota reached ({files} files or {max} MB per day), try again tomorrow',
+        uploadQuotaBusy: 'Too many uploads at once, try again in a moment',
+        uploadNotFound: 'No upload "{id}"',
+        uploadPartIndex: 'Expected a part index between 0 and {max}',
+        uploadPartSize: 'Expected part {index} to be {size} bytes',
+        uploadPartHash: 'Part {index} does not match the hash in X-Chunk-Sha256',
+        uploadIncomplete: 'Parts still missing: {parts}',
+        uploadHashMismatch: 'The reassembled file does not match its SHA-256 hash',
+        missingFileOrFormat: 'Missing the file or the target format',
+        revalidationNotConfigured: 'Revalidation is not configured: set the REVALIDATE_SECRET environment variable',
+        invalidCredentials: 'Invalid credentials',
+        missingCredentials: 'Expected an Authorization header or a signed request',
+        staleTimestamp: 'The request timestamp is missing or too far from the current time',
+        invalidSignature: 'Invalid signature',
+        replayedRequest: 'This signed request was already used',
+        rateLimited: 'Too many revalidation requests, try again later',
+        purgeFailed: 'The CDN cache could not be purged: {reason}',
+        tagsExpected: 'Expected tags to be an array of 1 to {max} strings',
+        tagsNotAllowed: 'Tags not allowed: {tags}',
+        expectedJson: 'Expected a JSON body'
+    },
+    pages: {
+        index: {
+            title: 'Welcome to Astro.',
+            heading: 'Netlify Platform Starter for Astro',
+            explainer: `
+An Astro website can go way beyond static pages - on the right platform.
+
+Netlify supports not only [Streaming SSR](https://docs.astro.build/en/guides/server-side-rendering/#html-streaming) and fast [Edge Middleware](https://docs.astro.build/en/guides/middleware/), but also [on-demand revalidation](https://www.netlify.com/blog/cache-tags-and-purge-api-on-netlify/) and [stale-while-revalidate](https://www.netlify.com/blog/swr-and-fine-grained-cache-control/). 
+Any page or data can be rebuilt only when needed, without site visitors ever getting a performance hit.
+`,
+            readDocs: 'Read the Docs',
+            blobsFirstExplainer: `
+An Astro website can go way beyond static pages - on the right platform.
+
+Store user data in [Netlify Blobs](https://docs.netlify.com/blobs/overview/), route visitors at the edge, and rebuild any page or data
+only when needed with [on-demand revalidation](https://www.netlify.com/blog/cache-tags-and-purge-api-on-netlify/) - without site visitors ever getting a performance hit.
+`,
+            tryBlobs: 'Try the Blobs Demo'
+        },
+        tools: {
+            title: 'Tools',
+            explainer: `
+# Tools
+
+A toolbox that brings document conversion, file management and image compression together.
+
+## Features
+
+- 📄 **Document conversion**: converts between PDF, DOCX, TXT, MD and HTML, entirely on the server
+- 📁 **File manager**: cloud folders on Netlify Blobs, with batch rename, delete, copy and move
+- 🖼️ **Image compression**: server-side compression with adjustable quality, size limits and conversion to JPEG/WebP/AVIF/PNG
+
+## Architecture
+
+- **Frontend**: React + TypeScript + Tailwind CSS
+- **Backend**: Netlify Functions (Serverless)
+- **Deployment**: Netlify Platform
+`
+        },
+        blobs: {
+            title: 'Blobs',
+            heading: 'Blobs x Blobs',
+            explainer: `
+[Netlify Blobs](https://docs.netlify.com/blobs/overview/) provides an object store for any kind of data, be it JSON, binary, 
+or [really](https://mk.gg/projects/chalkstream) anything else ([really!](https://mk.gg/projects/turbofan)). In this example, the blob store is used to **hold the data of user-generated random blobby shapes**.
+
+Below is an Astro island with a React component for editing, uploading and viewing blobs to the blob store 🙂.
+`,
+            uploadDisabled: `
+User uploads are disabled in this site. To run your own and try it out: 
+<a href="https://app.netlify.com/start/deploy?repository=https://github.com/netlify-templates/astro-platform-starter">
+<img src="https://www.netlify.com/img/deploy/button.svg" style="display: inline;" alt="Deploy to Netlify" />
+</a>
+`
+        },
+        collection: {
+            title: '{name} · Shared collection',
+            shared: 'A shared collection of {count} shapes. The link expires on {date}.',
+            empty: 'This collection has no shapes.',
+            unavailableTitle: 'Link unavailable',
+            unavailable: 'This link does not exist, has expired or was revoked.'
+        },
+        revalidation: {
+            title: 'Revalidation',
+            heading: 'Revalidating Server Content',
+            explainer: `
+This is a server-rendered page, last created at \`{createdAt}\` with a few extra response headers:
+
+~~~json
+{headers}
+~~~
+
+Meaning: **for browsers,** this is a non-cacheable page. At the **CDN level,** it *is* cacheable for up to a year (and Netlify also automatically busts the cache on new deployments, by default).
+
+But there's something more: the \`Cache-Tag\` header, in tandem with the [purge API](https://docs.netlify.com/platform/caching/#on-demand-invalidation), allows a developer to invalidate at will any
+pieces of content (pages, JSON responses, or whatnot) based on the tags associated with them. Tags are completely up to you to decide on, and allow for very powerful patterns.
+
+In real-world applications, you may want to use [stale-while-revalidate](https://docs.netlify.com/platform/caching/#stale-while-revalidate-directive) as well, so that end-users don't experience 
+a performance hit as pages are being rebuilt.
+
+The purge endpoint of this site is protected: it needs the \`REVALIDATE_SECRET\` environment variable to be set on the site, and callers must either send that secret
+or sign their request with it. Requests are rate-limited per caller, and every purge is kept in an audit log.
+
+The dashboard below lists every cache tag used on this site and the routes that set it. Purge any of this page's tags, then reload the page.
+`
+        },
+        imageCdn: {
+            title: 'Image CDN',
+            heading: 'Image CDN',
+            astroImage: `
+## Using the built-in Astro &lt;Image /&gt; component
+
+Astro's \`Image\` component will automatically use Netlify Image CDN to serve optimized images.
+
+~~~jsx
+---
+import { Image } from 'astro:assets';
+import corgi from '../assets/corgi.jpg';
+---
+// Later in your markup...
+<Image src={corgi} alt="Corgi" /* ... additional props */ />
+~~~
+`,
+            originalVsCdn: `
+## Original vs. optimized image: can you tell the difference?
+
+In the code below, a regular \`<img>\` tag is used in both cases for a framework-agnostic example. 
+Note that aside from Astro's \`Image\` or rolling your own \`<img>\` tags, you can also use the excellent [unpic-img](https://unpic.pics/) package.
+
+~~~jsx
+// <== On the left, the original image
+<img src="/images/corgi.jpg" alt="Corgi" />
+
+// ==> On the right, explicitly using Netlify Image CDN endpoint for a responsive image
+<img 
+  srcSet="{srcSet}"
+  sizes="{sizes}" 
+  alt="Corgi" 
+/>
+~~~
+`,
+            devModeWarning: `
+In local development, optimization is performed locally without automatic format
+detection, so format is set to WebP.
+`,
+            credit: 'Credit: photo by <a href="https://unsplash.com/@alvannee">Alvan Nee</a> on <a href="https://unsplash.com/photos/long-coated-white-and-brown-dog-lvFlpqEvuRM">Unsplash</a>',
+            imageSize: 'Size: {size}KB'
+        },
+        edge: {
+            fallbackTitle: 'Fallback',
+            fallbackExplainer: `
+# You've reached the fallback page.
+
+This page is using a [Netlify Edge Function](https://docs.netlify.com/edge-functions/overview/) to rewrite the URL based on visitor geography.
+
+For it to be invoked, please either run this site locally with \`netlify dev\` or deploy it to Netlify.
+
+Edge Functions are framework-agnostic, but are also used behind the scenes to run Astro Middleware on Netlify.
+There are advatanges to using Edge Functions directly, such as the ability to access & transform the response body.
+
+[See more examples](https://edge-functions-examples.netlify.app)
+`,
+            australiaTitle: 'In Australia',
+            australiaHeading: 'You are in Australia!',
+            notAustraliaTitle: 'Not Australia',
+            notAustraliaHeading: "You're not in Australia!",
+            explainer: `
+This page is using a Netlify Edge Function (\`netlify/edge-functions/rewrite.ts\`) to route visitors based on their geography.
+What it does is described by a rules table (\`netlify/edge-functions/lib/geoRules.ts\`): the first matching rule either rewrites or redirects the request,
+and a fallback handles everyone else. Rules can match on country, subdivision, city, preferred language, a cookie or a query parameter.
+
+~~~ts
+export const geoRoutingTable = {
+    rules: [
+        {
+            name: 'australia',
+            when: { country: ['AU'] },
+            then: { redirect: '/edge/australia', status: 302 }
+        }
+    ],
+    fallback: { redirect: '/edge/not-australia', status: 302 }
+};
+~~~
+
+To try out a rule without travelling, add \`?geo=\` with a country code (and optionally a subdivision), e.g. [/edge?geo=AU](/edge?geo=AU) or \`/edge?geo=AU-NSW\`.
+
+[See more examples](https://edge-functions-examples.netlify.app)
+`
+        },
+        experiments: {
+            title: 'Experiments',
+            heading: 'A/B Testing at the Edge',
+            explainer: `
+Experiments run in a Netlify Edge Function (\`netlify/edge-functions/experiments.ts\`), so each visitor gets their variant in the first response, without any flicker.
+New visitors are assigned a variant by weight and keep it through a cookie, and the variant's page is served under the original URL.
+The responses carry a \`Netlify-Vary: cookie=...\` header so that cached variants are kept apart.
+
+Experiments are defined in \`netlify/edge-functions/lib/experiments.ts\`. Every assignment is recorded in a Blobs store as an exposure, counted below.
+`,
+            loadFailed: 'Failed loading the experiment results.',
+            experimentOn: 'on',
+            variant: 'Variant',
+            page: 'Page',
+            targetShare: 'Target share',
+            exposures: 'Exposures',
+            actualShare: 'Actual share'
+        }
+    }
+};
+
+export default en;
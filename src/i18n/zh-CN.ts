@@ -0,0 +1,489 @@
+import type { Messages } from '../utils/i18n';
+
+// Simplified Chinese messages, with the same keys as en.ts
+
+const zhCN: Messages = {
+    common: {
+        rootFolder: '根目录',
+        download: '下载',
+        language: '语言'
+    },
+    header: {
+        home: '首页',
+        tools: '多功能工具',
+        revalidation: '缓存刷新',
+        imageCdn: '图片 CDN',
+        edge: '边缘函数',
+        experiments: 'A/B 实验',
+        blobs: 'Blobs'
+    },
+    markdown: {
+        contents: '目录',
+        note: '注意',
+        warning: '警告'
+    },
+    contextAlert: {
+        noNetlifyContext: `
+如需使用全部功能，请通过 \`netlify dev\` 在本地运行本站
+（[参见文档](https://docs.netlify.com/cli/local-development/)），或将其部署到 Netlify。
+`
+    },
+    tools: {
+        tabs: {
+            convert: '文档转换',
+            manage: '文件管理',
+            compress: '图片压缩'
+        },
+        status: {
+            uploading: '上传中',
+            queued: '排队中',
+            running: '转换中',
+            done: '已完成',
+            failed: '失败'
+        },
+        uploads: {
+            title: '被中断的上传',
+            hint: '重新选择同一个文件，即可继续上传尚未发送的部分。',
+            resume: '继续',
+            discard: '放弃',
+            progress: '正在上传 {name}: {percent}%',
+            wrongFile: '这不是被中断的文件，请选择 {name}',
+            resumedConversion: '{name} 已上传，正在转换',
+            unexpectedResult: '上传结果无效'
+        },
+        unzipFailed: '无法解压 {name}: {error}',
+        bundleResults: '打包为 ZIP 下载（含文件清单）',
+        convert: {
+            title: '文档格式转换',
+            dropFiles: '点击或拖拽上传文档',
+            supportedFiles: '支持 PDF, DOCX, TXT, MD, HTML 及 ZIP 压缩包',
+            targetFormat: '目标格式',
+            formatDocx: 'Word文档',
+            formatTxt: '纯文本',
+            pendingFiles: '待转换文件',
+            converting: '转换中...',
+            convert: '转换',
+            convertAll: '批量转换所有文档',
+            recent: '最近转换',
+            downloadAll: '打包下载',
+            succeeded: '文档转换成功！',
+            failed: '转换失败: {error}',
+            timedOut: '转换耗时过长，已放弃',
+            bundled: '已转换 {count} 个文档并打包下载'
+        },
+        manage: {
+            title: '文件管理',
+            uploadTo: '批量上传文件到 {path}',
+            newFolder: '新建文件夹',
+            rename: '批量重命名',
+            copy: '复制',
+            move: '移动',
+            delete: '删除',
+            emptyFolder: '此文件夹为空',
+            loadFailed: '读取文件夹失败: {error}',
+            uploaded: '已上传 {count} 个文件',
+            uploadFailed: '上传失败: {error}',
+            promptFolderName: '请输入新文件夹名称:',
+            folderCreated: '已创建文件夹 {name}',
+            promptRenamePrefix: '请输入新的文件名前缀:',
+            renamed: '已重命名 {count} 个文件',
+            confirmDelete: '确定要删除选中的 {count} 个文件吗？',
+            deleted: '已删除 {count} 个文件',
+            promptDestination: '请输入目标文件夹路径（留空为根目录）:',
+            copied: '已将 {count} 个文件复制到 {destination}',
+            moved: '已将 {count} 个文件移动到 {destination}',
+            failed: '操作失败: {error}'
+        },
+        compress: {
+            title: '图片压缩优化',
+            dropFiles: '上传图片进行压缩',
+            supportedFiles: '支持 JPG, PNG, WebP, AVIF, GIF, TIFF 及 ZIP 压缩包',
+            quality: '压缩质量: {quality}%',
+            maxDimension: '最大边长 (像素)',
+            outputFormat: '输出格式',
+            keepFormat: '保持原格式',
+            images: '图片列表',
+            compressing: '压缩中...',
+            compress: '压缩',
+            compressingAll: '批量压缩中...',
+            compressAll: '批量压缩所有图片',
+            bundled: '压缩完成！已将 {count} 张图片打包下载，详情见 manifest.json',
+            skipped: '，{count} 个文件无法处理',
+            succeeded: '压缩完成！节省了 {saved} ({percent}%){skipped}',
+            succeededOffline: '压缩完成（离线模式）！节省了 {saved} ({percent}%)',
+            failed: '压缩失败: {error}'
+        }
+    },
+    shapes: {
+        newTitle: '新建形状',
+        editingTitle: '正在编辑 "{key}"',
+        name: '名称',
+        edges: '边数',
+        growth: '起伏',
+        size: '尺寸',
+        angle: '渐变角度',
+        seed: '种子',
+        lockSeed: '锁定种子',
+        colors: '颜色',
+        colorStop: '渐变色 {index}',
+        addColor: '添加渐变色',
+        removeColor: '移除最后一个渐变色',
+        randomize: '随机生成',
+        upload: '上传',
+        save: '保存',
+        cancel: '取消',
+        storedTitle: 'Blob 存储中的对象',
+        search: '按名称搜索',
+        sortNewest: '最新',
+        sortName: '名称',
+        noMatches: '没有符合搜索条件的形状。',
+        empty: '请先上传一些形状！',
+        loading: '加载中...',
+        edit: '编辑',
+        rename: '重命名',
+        delete: '删除',
+        downloadSvg: '下载 SVG',
+        downloadPng: '下载 PNG',
+        copyEmbed: '复制嵌入代码',
+        copied: '已复制！',
+        copyFailed: '无法复制到剪贴板',
+        confirmDelete: '确定要删除形状 "{key}" 吗？',
+        promptRename: '请输入形状的新名称:',
+        stored: '已保存形状 "{key}"',
+        history: {
+            show: '历史',
+            hide: '隐藏历史',
+            loading: '正在加载历史...',
+            version: '版本 {version}',
+            current: '当前',
+            created: '创建',
+            updated: '更新',
+            renamed: '由 "{key}" 重命名',
+            restored: '恢复了版本 {version}',
+            savedBy: '{date}，{author}',
+            compare: '比较',
+            restore: '恢复',
+            confirmRestore: '恢复版本 {version}？当前参数会保留在历史中。',
+            diffTitle: '从版本 {from} 到当前版本的变化',
+            noChanges: '参数与当前版本相同。'
+        }
+    },
+    collections: {
+        title: '集合',
+        create: '新建集合',
+        promptName: '新集合的名称：',
+        empty: '还没有集合。',
+        shapeCount: '{count} 个形状',
+        addSelected: '添加选中的形状',
+        removeShape: '从集合中移除 {key}',
+        noShapes: '在上方选中形状即可添加。',
+        delete: '删除集合',
+        confirmDelete: '删除集合 "{name}"？它的分享链接将失效。',
+        shares: '分享链接',
+        noShares: '尚未分享。',
+        validFor: '有效期',
+        days: '{count} 天',
+        share: '创建分享链接',
+        linkCreated: '请立即复制链接，之后不会再次显示：',
+        copy: '复制',
+        copied: '已复制！',
+        active: '{date} 到期',
+        expired: '已于 {date} 过期',
+        revoked: '已于 {date} 撤销',
+        revoke: '撤销',
+        confirmRevoke: '撤销此链接？使用它的人将立即失去访问权限。'
+    },
+    cache: {
+        secret: '刷新密钥',
+        author: '你的名字',
+        filter: '筛选标签或路由',
+        noTags: '没有找到缓存标签。',
+        purge: '清除选中的标签 ({count})',
+        purging: '清除中...',
+        invalidated: '已失效: {tags}',
+        purgeFailed: '失败: {error}',
+        timeline: '清除记录',
+        timelineLocked: '输入刷新密钥后可查看以往的清除记录。',
+        loadTimeline: '查看清除记录',
+        reload: '重新加载页面'
+    },
+    validation: {
+        notObject: '必须是 JSON 对象',
+        unknownField: '未知字段',
+        required: '必填',
+        integerBetween: '必须是 {min} 到 {max} 之间的整数',
+        seed: '必须是非负整数',
+        name: '必须是 1 到 64 个字母、数字、"-" 或 "_"，并以字母或数字开头',
+        reservedName: '不能是以下名称之一: {names}',
+        colors: '必须是 {min} 到 {max} 个十六进制颜色，例如 ["#2E3192", "#1BFFFF"]'
+    },
+    api: {
+        network: '无法连接服务器: {error}',
+        timeout: '服务器在 {seconds} 秒内没有响应',
+        status: '请求失败，HTTP 状态码 {status}',
+        invalidResponse: '服务器返回了无法解析的响应'
+    },
+    errors: {
+        methodNotAllowed: '不支持该请求方法',
+        uploadsDisabled: '抱歉，上传功能已关闭',
+        shapeNotFound: '形状 "{key}" 不存在',
+        shapeExists: '形状 "{key}" 已存在',
+        shapeListQuery: 'sort 必须是 {sorts} 之一，limit 必须在 1 到 100 之间',
+        shapeVersionNotFound: '形状 "{key}" 没有版本 {version}',
+        shapeVersionQuery: '"from" 和 "to" 应为版本号',
+        shapeImportQuery: 'onConflict 应为以下之一：{strategies}，fromLine 应为行号',
+        importTooLarge: '导入内容不能超过 {max} MiB',
+        importLineJson: '这一行不是有效的 JSON',
+        importRecord: '需要一个包含形状 "parameters" 的对象',
+        importKeyMismatch: '键 "{key}" 与形状名称 "{name}" 不一致',
+        shapeListFailed: '读取形状列表失败',
+        shapeKeyRequired: '缺少 "key" 查询参数',
+        collectionRequest: '需要 1 到 80 个字符的 "name"、可选的 "description"，以及最多 {max} 个 "shapeKeys"',
+        collectionNotFound: '集合 "{id}" 不存在',
+        shareRequest: '"expiresInDays" 应为 1 到 {max} 之间的整数',
+        shareNotFound: '分享链接 "{id}" 不存在',
+        blobListFailed: '读取 Blob 列表失败',
+        shapeTooLarge: '形状数据不能超过 {max} 字节',
+        shapeNotJson: '形状参数必须是 JSON',
+        shapeInvalid: '形状参数无效',
+        exportSize: 'size 必须是 {min} 到 {max} 之间的整数',
+        cacheTagsFailed: '读取缓存标签失败',
+        imagesRequest: '需要包含一个或多个 "file" 字段的 multipart 表单数据',
+        imagesOptions: 'quality 必须在 1 到 100 之间，maxDimension 必须在 16 到 8192 之间，format 必须是以下之一: {formats}',
+        imageUnsupported: '不支持的图片格式',
+        imagesNoneCompressed: '上传的文件都无法压缩',
+        conversionRequest: '需要包含 "file" 和 "targetFormat" 字段的 multipart 表单数据',
+        conversionUnsupported: '不支持将 {source} 转换为 {target}',
+        conversionFailed: '转换 {name} 失败',
+        conversionFailedWithReason: '转换失败: {error}',
+        pdfUnsupportedCharacters: '文档中有无法在 PDF 中显示的字符: {characters}',
+        jobNotFound: '转换任务 "{id}" 不存在',
+        jobTimedOut: '转换 {name} 的任务中途停止，未能完成',
+        jobNotDone: '转换任务 "{id}" 的状态为 {status}',
+        jobResultMissing: '转换任务 "{id}" 的结果已丢失',
+        archiveRequest: '需要一个或多个 "id" 查询参数',
+        archiveNothingDone: '请求的转换任务都尚未完成',
+        invalidPath: '路径无效',
+        filesUploadRequest: '需要包含 "path" 和一个或多个 "file" 字段的 multipart 表单数据',
+        invalidFileName: '文件名 "{name}" 无效',
+        filesCopyRequest: '请求体中需要有效的 "path" 和 "destination" 文件夹',
+        filesRenameRequest: '请求体中需要有效的 "path" 和不含斜杠的新 "name"',
+        filesFolderRequest: '请求体中需要有效的文件夹 "path"',
+        pathNotFound: '"{path}" 不存在',
+        pathExists: '"{path}" 已存在',
+        copyIntoItself: '不能将 "{path}" 复制到其自身中',
+        uploadRequest: '请求体必须是包含 "fileName"、正整数 "size"、文件的十六进制 "sha256" 和 "target" 的 JSON',
+        fileTooLarge: '{name} 太大，此处的文件不能超过 {max} MB',
+        fileTypeNotAllowed: '{name} 不是允许的文件类型（实际内容为 {type}）',
+        fileTypeMismatch: '{name} 的内容 ({type}) 与扩展名不符',
+        uploadQuotaExceeded: '已达到每日上传配额（每天 {files} 个文件或 {max} MB），请明天再试',
+        uploadQuotaBusy: '同时上传的文件过多，请稍后再试',
+        uploadNotFound: '上传任务 "{id}" 不存在',
+        uploadPartIndex: '分片序号必须在 0 到 {max} 之间',
+        uploadPartSize: '分片 {index} 的大小必须是 {size} 字节',
+        uploadPartHash: '分片 {index} 与 X-Chunk-Sha256 中的哈希不一致',
+        uploadIncomplete: '仍缺少以下分片: {parts}',
+        uploadHashMismatch: '重新拼接的文件与其 SHA-256 哈希不一致',
+        missingFileOrFormat: '缺少文件或目标格式',
+        revalidationNotConfigured: '尚未配置缓存刷新：请设置 REVALIDATE_SECRET 环境变量',
+        invalidCredentials: '凭据无效',
+        missingCredentials: '需要 Authorization 请求头或已签名的请求',
+        staleTimestamp: '请求时间戳缺失或与当前时间相差过大',
+        invalidSignature: '签名无效',
+        replayedRequest: '此签名请求已被使用过',
+        rateLimited: '缓存刷新请求过多，请稍后再试',
+        purgeFailed: 'CDN 缓存清除失败：{reason}',
+        tagsExpected: 'tags 必须是包含 1 到 {max} 个字符串的数组',
+        tagsNotAllowed: '不允许的标签: {tags}',
+        expectedJson: '请求体必须是 JSON'
+    },
+    pages: {
+        index: {
+            title: '欢迎使用 Astro',
+            heading: 'Netlify 平台 Astro 入门模板',
+            explainer: `
+在合适的平台上，Astro 网站可以远不止静态页面。
+
+Netlify 不仅支持[流式 SSR](https://docs.astro.build/en/guides/server-side-rendering/#html-streaming) 和快速的[边缘中间件](https://docs.astro.build/en/guides/middleware/)，还支持[按需刷新](https://www.netlify.com/blog/cache-tags-and-purge-api-on-netlify/)和 [stale-while-revalidate](https://www.netlify.com/blog/swr-and-fine-grained-cache-control/)。
+任何页面或数据都可以只在需要时重新生成，访客永远不会因此感到变慢。
+`,
+            readDocs: '阅读文档',
+            blobsFirstExplainer: `
+在合适的平台上，Astro 网站可以远不止静态页面。
+
+用 [Netlify Blobs](https://docs.netlify.com/blobs/overview/) 存储用户数据，在边缘对访客进行路由，
+并通过[按需刷新](https://www.netlify.com/blog/cache-tags-and-purge-api-on-netlify/)只在需要时重新生成页面或数据——访客永远不会因此感到变慢。
+`,
+            tryBlobs: '试试 Blobs 演示'
+        },
+        tools: {
+            title: '多功能工具集',
+            explainer: `
+# 多功能工具集
+
+这是一个集成了文档转换、文件管理和图片压缩功能的现代化工具平台。
+
+## 功能特性
+
+- 📄 **文档转换**: 支持 PDF, DOCX, TXT, MD, HTML 格式互转，全部在服务端完成
+- 📁 **文件管理**: 基于 Netlify Blobs 的云端文件夹，支持批量重命名、删除、复制、移动文件
+- 🖼️ **图片压缩**: 服务端智能压缩，支持质量调节、尺寸限制和 JPEG/WebP/AVIF/PNG 格式转换
+
+## 技术架构
+
+- **前端**: React + TypeScript + Tailwind CSS
+- **后端**: Netlify Functions (Serverless)
+- **部署**: Netlify Platform
+`
+        },
+        blobs: {
+            title: 'Blobs',
+            heading: 'Blobs x Blobs',
+            explainer: `
+[Netlify Blobs](https://docs.netlify.com/blobs/overview/) 提供了可以存放任何数据的对象存储，无论是 JSON、二进制数据，
+还是[真的](https://mk.gg/projects/chalkstream)任何其他东西（[真的！](https://mk.gg/projects/turbofan)）。在这个示例中，Blob 存储用来**保存用户生成的随机圆润形状**。
+
+下面是一个包含 React 组件的 Astro 岛，可以编辑、上传并查看 Blob 存储中的形状 🙂。
+`,
+            uploadDisabled: `
+本站已关闭用户上传。如需自己部署一份来试用：
+<a href="https://app.netlify.com/start/deploy?repository=https://github.com/netlify-templates/astro-platform-starter">
+<img src="https://www.netlify.com/img/deploy/button.svg" style="display: inline;" alt="部署到 Netlify" />
+</a>
+`
+        },
+        collection: {
+            title: '{name} · 分享的集合',
+            shared: '包含 {count} 个形状的分享集合，链接将于 {date} 到期。',
+            empty: '这个集合没有形状。',
+            unavailableTitle: '链接不可用',
+            unavailable: '此链接不存在、已过期或已被撤销。'
+        },
+        revalidation: {
+            title: '缓存刷新',
+            heading: '刷新服务端内容',
+            explainer: `
+这是一个服务端渲染的页面，最近一次生成于 \`{createdAt}\`，并带有几个额外的响应头：
+
+~~~json
+{headers}
+~~~
+
+也就是说：**对浏览器而言**，这个页面不可缓存；而在 **CDN 层面**，它*可以*被缓存长达一年（默认情况下，Netlify 也会在每次新部署时自动清除缓存）。
+
+不止如此：\`Cache-Tag\` 响应头配合[清除 API](https://docs.netlify.com/platform/caching/#on-demand-invalidation)，可以让开发者随时根据关联的标签
+让任意内容（页面、JSON 响应或其他任何东西）失效。标签完全由你决定，可以实现非常强大的模式。
+
+在实际应用中，你可能还需要使用 [stale-while-revalidate](https://docs.netlify.com/platform/caching/#stale-while-revalidate-directive)，
+这样页面在重新生成时，用户也不会感到变慢。
+
+本站的清除接口受到保护：站点上需要设置 \`REVALIDATE_SECRET\` 环境变量，调用方必须发送该密钥，或用它对请求进行签名。
+请求按调用方限流，每次清除都会记录在审计日志中。
+
+下面的面板列出了本站使用的所有缓存标签以及设置它们的路由。清除本页面的任意标签后，重新加载页面即可。
+`
+        },
+        imageCdn: {
+            title: '图片 CDN',
+            heading: '图片 CDN',
+            astroImage: `
+## 使用 Astro 内置的 &lt;Image /&gt; 组件
+
+Astro 的 \`Image\` 组件会自动使用 Netlify 图片 CDN 来提供优化后的图片。
+
+~~~jsx
+---
+import { Image } from 'astro:assets';
+import corgi from '../assets/corgi.jpg';
+---
+// 之后在页面标记中……
+<Image src={corgi} alt="Corgi" /* ... 其他属性 */ />
+~~~
+`,
+            originalVsCdn: `
+## 原图与优化后的图片：你能看出区别吗？
+
+下面的代码中，两边都使用了普通的 \`<img>\` 标签，以便与框架无关。
+除了 Astro 的 \`Image\` 或自己编写 \`<img>\` 标签外，你也可以使用优秀的 [unpic-img](https://unpic.pics/) 包。
+
+~~~jsx
+// <== 左边是原图
+<img src="/images/corgi.jpg" alt="Corgi" />
+
+// ==> 右边显式使用 Netlify 图片 CDN 接口，生成响应式图片
+<img 
+  srcSet="{srcSet}"
+  sizes="{sizes}" 
+  alt="Corgi" 
+/>
+~~~
+`,
+            devModeWarning: `
+在本地开发时，图片优化在本地进行，不会自动检测格式，因此格式固定为 WebP。
+`,
+            credit: '图片来源：<a href="https://unsplash.com/@alvannee">Alvan Nee</a> 发布于 <a href="https://unsplash.com/photos/long-coated-white-and-brown-dog-lvFlpqEvuRM">Unsplash</a>',
+            imageSize: '大小: {size}KB'
+        },
+        edge: {
+            fallbackTitle: '后备页面',
+            fallbackExplainer: `
+# 你来到了后备页面。
+
+本页面使用 [Netlify 边缘函数](https://docs.netlify.com/edge-functions/overview/)根据访客所在地区改写 URL。
+
+要让它生效，请通过 \`netlify dev\` 在本地运行本站，或将其部署到 Netlify。
+
+边缘函数与框架无关，同时也在幕后用于在 Netlify 上运行 Astro 中间件。
+直接使用边缘函数有一些优势，例如可以读取并改写响应内容。
+
+[查看更多示例](https://edge-functions-examples.netlify.app)
+`,
+            australiaTitle: '在澳大利亚',
+            australiaHeading: '你在澳大利亚！',
+            notAustraliaTitle: '不在澳大利亚',
+            notAustraliaHeading: '你不在澳大利亚！',
+            explainer: `
+本页面使用 Netlify 边缘函数（\`netlify/edge-functions/rewrite.ts\`）根据访客所在地区进行路由。
+它的行为由一张规则表（\`netlify/edge-functions/lib/geoRules.ts\`）描述：第一条匹配的规则会改写或重定向请求，
+其余访客由后备规则处理。规则可以匹配国家、省/州、城市、首选语言、Cookie 或查询参数。
+
+~~~ts
+export const geoRoutingTable = {
+    rules: [
+        {
+            name: 'australia',
+            when: { country: ['AU'] },
+            then: { redirect: '/edge/australia', status: 302 }
+        }
+    ],
+    fallback: { redirect: '/edge/not-australia', status: 302 }
+};
+~~~
+
+无需出行也能试用规则：加上带国家代码（以及可选的省/州代码）的 \`?geo=\`，例如 [/edge?geo=AU](/edge?geo=AU) 或 \`/edge?geo=AU-NSW\`。
+
+[查看更多示例](https://edge-functions-examples.netlify.app)
+`
+        },
+        experiments: {
+            title: 'A/B 实验',
+            heading: '边缘 A/B 测试',
+            explainer: `
+实验运行在 Netlify 边缘函数（\`netlify/edge-functions/experiments.ts\`）中，因此每位访客在第一个响应中就会拿到自己的变体，不会出现闪烁。
+新访客按权重分配到一个变体，并通过 Cookie 保持不变；变体页面会在原始 URL 下提供。
+响应带有 \`Netlify-Vary: cookie=...\` 响应头，使不同变体的缓存互不干扰。
+
+实验定义在 \`netlify/edge-functions/lib/experiments.ts\` 中。每次分配都会作为一次曝光记录到 Blobs 存储中，统计如下。
+`,
+            loadFailed: '读取实验结果失败。',
+            experimentOn: '位于',
+            variant: '变体',
+            page: '页面',
+            targetShare: '目标占比',
+            exposures: '曝光数',
+            actualShare: '实际占比'
+        }
+    }
+};
+
+export default zhCN;
@@ -0,0 +1,11 @@
+import { defineMiddleware } from 'astro:middleware';
+import { defaultLocale, requestLocale } from './utils/i18n';
+import { runWithLocale } from './utils/requestLocale';
+
+// Resolves the visitor's locale (the cookie set by the switcher or the locale edge function, then Accept-Language)
+// and makes it available to pages as Astro.locals.locale and to server-side helpers through t().
+export const onRequest = defineMiddleware((context, next) => {
+    const locale = context.isPrerendered ? defaultLocale : requestLocale(context.request);
+    context.locals.locale = locale;
+    return runWithLocale(locale, next);
+});
@@ -1,5 +1,9 @@
 import type { APIRoute } from 'astro';
-import { getStore } from '@netlify/blobs';
+import { getShape } from '../../utils/shapes';
+import { cacheTagsFor } from '../../utils/cacheTags';
+import { cacheHeaders, errorResponse, jsonResponse } from '../../utils';
+import type { ShapeParametersResponse } from '../../types';
+import { t } from '../../utils/requestLocale';
 
 export const prerender = false;
 
@@ -7,14 +11,14 @@ export const GET: APIRoute = async (context) => {
     const urlParams = new URL(context.url);
     const key = urlParams.searchParams.get('key');
     if (!key) {
-        return new Response('Bad Request', { status: 400 });
+        return errorResponse(400, { error: t('errors.shapeKeyRequired') });
     }
 
-    const blobStore = getStore('shapes');
-    const blob = await blobStore.get(key, { type: 'json' });
-    return new Response(
-        JSON.stringify({
-            blob
-        })
+    const shape = await getShape(key);
+    return jsonResponse<ShapeParametersResponse>(
+        {
+            blob: shape?.parameters ?? null
+        },
+        { headers: cacheHeaders('durable', cacheTagsFor('/api/blob?key=[key]', { key })) }
     );
 };
@@ -1,40 +1,44 @@
 import type { APIRoute } from 'astro';
-import { getStore } from '@netlify/blobs';
-import { uploadDisabled } from '../../utils';
+import { createShape, readShapeBody, shapeStore, writeOptionsFromRequest } from '../../utils/shapes';
+import { cacheTagsFor } from '../../utils/cacheTags';
+import { apiErrorResponse, cacheHeaders, errorResponse, jsonResponse, uploadDisabled } from '../../utils';
+import type { ShapeKeysResponse, ShapeStoredResponse } from '../../types';
+import { t } from '../../utils/requestLocale';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
-    if (uploadDisabled) throw new Error('Sorry, uploads are disabled');
+export const POST: APIRoute = async ({ request, url }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    const body = await readShapeBody(request);
+    if ('error' in body) {
+        return errorResponse(body.status, { error: body.error, issues: body.issues });
+    }
 
-    const parameters = await request.json();
-    const blobStore = getStore('shapes');
-    const key = parameters.name;
-    await blobStore.setJSON(key, parameters);
-    return new Response(
-        JSON.stringify({
-            message: `Stored shape "${key}"`
-        })
-    );
+    try {
+        const { parameters: stored } = await createShape(body.parameters, writeOptionsFromRequest(request, url));
+        return jsonResponse<ShapeStoredResponse>({
+            message: t('shapes.stored', { key: stored.name })
+        });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
 };
 
 export const GET: APIRoute = async ({ request }) => {
     try {
-        const blobStore = getStore({ name: 'shapes', consistency: 'strong' });
-        const data = await blobStore.list();
+        const data = await shapeStore().list();
         const keys = data.blobs.map(({ key }) => key);
-        return new Response(
-            JSON.stringify({
+        return jsonResponse<ShapeKeysResponse>(
+            {
                 keys
-            })
+            },
+            { headers: cacheHeaders('shapeListing', cacheTagsFor('/api/blobs')) }
         );
     } catch (e) {
         console.error(e);
-        return new Response(
-            JSON.stringify({
-                keys: [],
-                error: 'Failed listing blobs'
-            })
-        );
+        return errorResponse(500, { error: t('errors.blobListFailed') });
     }
 };
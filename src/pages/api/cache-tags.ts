@@ -0,0 +1,17 @@
+import type { APIRoute } from 'astro';
+import { knownCacheTags } from '../../utils/cacheTags';
+import { errorResponse, jsonResponse } from '../../utils';
+import type { CacheTagsResponse } from '../../types';
+import { t } from '../../utils/requestLocale';
+
+export const prerender = false;
+
+// Lists the cache tags in use on the site, each with the routes whose responses carry it
+export const GET: APIRoute = async () => {
+    try {
+        return jsonResponse<CacheTagsResponse>({ tags: await knownCacheTags() });
+    } catch (e) {
+        console.error(e);
+        return errorResponse(500, { error: t('errors.cacheTagsFailed') });
+    }
+};
@@ -0,0 +1,43 @@
+import type { APIRoute } from 'astro';
+import { deleteCollection, getCollection, updateCollection } from '../../../utils/collections';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import type { CollectionResponse, DeletedResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+    const collection = await getCollection(params.id);
+    if (!collection) {
+        return errorResponse(404, { error: t('errors.collectionNotFound', { id: params.id }) });
+    }
+    return jsonResponse<CollectionResponse>({ collection });
+};
+
+// Changes any of name, description and shapeKeys; shapeKeys replaces the whole list
+export const PATCH: APIRoute = async ({ params, request }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        const collection = await updateCollection(params.id, await request.json().catch(() => null));
+        return jsonResponse<CollectionResponse>({ collection });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
+
+// Deletes the collection (not its shapes) and revokes its share links
+export const DELETE: APIRoute = async ({ params }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        await deleteCollection(params.id);
+        return jsonResponse<DeletedResponse>({ deleted: params.id });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
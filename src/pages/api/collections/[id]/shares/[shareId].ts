@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { revokeShareLink } from '../../../../../utils/collections';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../../../utils';
+import type { ShareLinkResponse } from '../../../../../types';
+import { t } from '../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Revokes the link right away; it stays in the list, marked as revoked
+export const DELETE: APIRoute = async ({ params }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        return jsonResponse<ShareLinkResponse>({ share: await revokeShareLink(params.id, params.shareId) });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
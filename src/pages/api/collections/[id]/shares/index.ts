@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { createShareLink, getCollection, listShareLinks } from '../../../../../utils/collections';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../../../utils';
+import type { ShareLinkCreatedResponse, ShareLinkListResponse } from '../../../../../types';
+import { t } from '../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// The collection's links, including expired and revoked ones. Their tokens are not stored, so not part of the list.
+export const GET: APIRoute = async ({ params }) => {
+    if (!(await getCollection(params.id))) {
+        return errorResponse(404, { error: t('errors.collectionNotFound', { id: params.id }) });
+    }
+    return jsonResponse<ShareLinkListResponse>({ shares: await listShareLinks(params.id) });
+};
+
+// Creates a read-only public link to the collection: { expiresInDays? }. The response is the only place its URL appears.
+export const POST: APIRoute = async ({ params, request, url }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        const { share, token } = await createShareLink(params.id, await request.json().catch(() => null));
+        const shareUrl = new URL(`/blobs/c/${token}`, url.origin).toString();
+        return jsonResponse<ShareLinkCreatedResponse>({ share, token, url: shareUrl }, { status: 201, headers: { 'Cache-Control': 'no-store' } });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { createCollection, listCollections } from '../../../utils/collections';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import type { CollectionListResponse, CollectionResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async () => {
+    return jsonResponse<CollectionListResponse>({ collections: await listCollections() });
+};
+
+// Creates a collection: { name, description?, shapeKeys? }
+export const POST: APIRoute = async ({ request }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        const collection = await createCollection(await request.json().catch(() => null));
+        return jsonResponse<CollectionResponse>({ collection }, { status: 201 });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { convertDocument, documentMimeTypes, parseConversionRequest } from '../../utils/converter';
+import { ApiError, apiErrorResponse, attachmentHeaders, errorResponse } from '../../utils';
+import { checkUploads } from '../../utils/uploadPolicy';
+import { t } from '../../utils/requestLocale';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+    const conversion = await parseConversionRequest(request);
+    if ('error' in conversion) {
+        return errorResponse(conversion.status, { error: conversion.error });
+    }
+    const policy = await checkUploads('convert', clientAddress ?? 'unknown', [conversion.file]);
+    if ('error' in policy) {
+        return errorResponse(policy.status, { error: policy.error }, policy.headers);
+    }
+
+    const { sourceFormat, targetFormat } = conversion;
+    const [file] = policy.files;
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    try {
+        const output = await convertDocument(new Uint8Array(await file.arrayBuffer()), sourceFormat, targetFormat, { title: baseName });
+        return new Response(output, { headers: attachmentHeaders(`${baseName}.${targetFormat}`, documentMimeTypes[targetFormat]) });
+    } catch (e) {
+        if (e instanceof ApiError) return apiErrorResponse(e);
+        console.error(e);
+        return errorResponse(500, { error: t('errors.conversionFailed', { name: file.name }) });
+    }
+};
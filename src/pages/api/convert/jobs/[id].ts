@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+import { getConversionJob } from '../../../../utils/conversionJobs';
+import { errorResponse, jsonResponse } from '../../../../utils';
+import type { ConversionJobResponse } from '../../../../types';
+import { t } from '../../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+    const job = await getConversionJob(params.id);
+    if (!job) {
+        return errorResponse(404, { error: t('errors.jobNotFound', { id: params.id }) });
+    }
+    return jsonResponse<ConversionJobResponse>({ job });
+};
@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { getConversionJob, getConversionResult } from '../../../../../utils/conversionJobs';
+import { documentMimeTypes } from '../../../../../utils/converter';
+import { attachmentHeaders, errorResponse } from '../../../../../utils';
+import { t } from '../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+    const job = await getConversionJob(params.id);
+    if (!job) {
+        return errorResponse(404, { error: t('errors.jobNotFound', { id: params.id }) });
+    }
+    if (job.status !== 'done') {
+        return errorResponse(409, { error: t('errors.jobNotDone', { id: job.id, status: job.status }) });
+    }
+
+    const result = await getConversionResult(job);
+    if (!result) {
+        return errorResponse(410, { error: t('errors.jobResultMissing', { id: job.id }) });
+    }
+    return new Response(result, {
+        headers: { ...attachmentHeaders(job.resultFileName, documentMimeTypes[job.targetFormat]), 'Content-Length': String(job.resultSize) }
+    });
+};
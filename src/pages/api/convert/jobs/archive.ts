@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { getConversionJob, getConversionResultData } from '../../../../utils/conversionJobs';
+import { createZipStream, manifestEntry, uniqueEntryName } from '../../../../utils/archive';
+import { attachmentHeaders, errorResponse } from '../../../../utils';
+import type { ArchiveManifestEntry } from '../../../../types';
+import { t } from '../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Streams the results of several finished conversion jobs (?id=...&id=...) as one ZIP, along with a manifest.json
+export const GET: APIRoute = async ({ url }) => {
+    const ids = [...new Set(url.searchParams.getAll('id'))];
+    if (!ids.length) {
+        return errorResponse(400, { error: t('errors.archiveRequest') });
+    }
+
+    const jobs = await Promise.all(ids.map((id) => getConversionJob(id)));
+    const finished = jobs.filter((job) => job?.status === 'done');
+    if (!finished.length) {
+        return errorResponse(404, { error: t('errors.archiveNothingDone') });
+    }
+
+    async function* entries() {
+        const manifest: ArchiveManifestEntry[] = [];
+        const names = new Set<string>();
+        for (const job of finished) {
+            const data = await getConversionResultData(job);
+            if (!data) continue;
+            const name = uniqueEntryName(job.resultFileName, names);
+            manifest.push({
+                originalName: job.fileName,
+                name,
+                originalSize: job.fileSize,
+                size: data.byteLength,
+                savedBytes: job.fileSize - data.byteLength
+            });
+            yield { name, data: new Uint8Array(data), compress: !['pdf', 'docx'].includes(job.targetFormat) };
+        }
+        yield manifestEntry(manifest);
+    }
+    return new Response(createZipStream(entries()), { headers: attachmentHeaders('converted-documents.zip', 'application/zip') });
+};
@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { parseConversionRequest } from '../../../../utils/converter';
+import { createConversionJob, startConversionJob } from '../../../../utils/conversionJobs';
+import { errorResponse, jsonResponse } from '../../../../utils';
+import { checkUploads } from '../../../../utils/uploadPolicy';
+import type { ConversionJobResponse } from '../../../../types';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, clientAddress, locals }) => {
+    const conversion = await parseConversionRequest(request);
+    if ('error' in conversion) {
+        return errorResponse(conversion.status, { error: conversion.error });
+    }
+    const policy = await checkUploads('convert', clientAddress ?? 'unknown', [conversion.file]);
+    if ('error' in policy) {
+        return errorResponse(policy.status, { error: policy.error }, policy.headers);
+    }
+
+    const job = await createConversionJob(policy.files[0], conversion.sourceFormat, conversion.targetFormat);
+    await startConversionJob(job, request, locals);
+    return jsonResponse<ConversionJobResponse>({ job }, { status: 202 });
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { baseName, copyEntry, joinPath, normalizePath } from '../../../utils/fileSystem';
+import { apiErrorResponse, errorResponse, jsonResponse } from '../../../utils';
+import type { FilePathResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+    const { path: rawPath, destination: rawDestination } = await request.json().catch(() => ({}));
+    const path = normalizePath(rawPath);
+    const destination = normalizePath(rawDestination);
+    if (!path || destination === null) {
+        return errorResponse(400, { error: t('errors.filesCopyRequest') });
+    }
+
+    const target = joinPath(destination, baseName(path));
+    try {
+        await copyEntry(path, target);
+        return jsonResponse<FilePathResponse>({ path: target });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import { baseName, normalizePath, readFile } from '../../../utils/fileSystem';
+import { attachmentHeaders, errorResponse } from '../../../utils';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url }) => {
+    const path = normalizePath(url.searchParams.get('path'));
+    if (!path) {
+        return errorResponse(400, { error: t('errors.invalidPath') });
+    }
+
+    const file = await readFile(path);
+    if (!file) {
+        return errorResponse(404, { error: t('errors.pathNotFound', { path }) });
+    }
+    return new Response(file.data, { headers: attachmentHeaders(baseName(path), String(file.metadata.type ?? 'application/octet-stream')) });
+};
@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { createFolder, normalizePath } from '../../../utils/fileSystem';
+import { errorResponse, jsonResponse } from '../../../utils';
+import type { FilePathResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+    const { path: rawPath } = await request.json().catch(() => ({}));
+    const path = normalizePath(rawPath);
+    if (!path) {
+        return errorResponse(400, { error: t('errors.filesFolderRequest') });
+    }
+
+    await createFolder(path);
+    return jsonResponse<FilePathResponse>({ path }, { status: 201 });
+};
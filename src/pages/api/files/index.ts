@@ -0,0 +1,58 @@
+import type { APIRoute } from 'astro';
+import { deleteEntry, joinPath, listDirectory, normalizePath, writeFile } from '../../../utils/fileSystem';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import { checkUploads } from '../../../utils/uploadPolicy';
+import type { DeletedResponse, DirectoryListing, FilesUploadResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url }) => {
+    const path = normalizePath(url.searchParams.get('path'));
+    if (path === null) {
+        return errorResponse(400, { error: t('errors.invalidPath') });
+    }
+    return jsonResponse<DirectoryListing>(await listDirectory(path));
+};
+
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const folder = normalizePath(formData?.get('path') as string);
+    const files = (formData?.getAll('file') ?? []).filter((file): file is File => file instanceof File);
+    if (folder === null || !files.length) {
+        return errorResponse(400, { error: t('errors.filesUploadRequest') });
+    }
+    const policy = await checkUploads('files', clientAddress ?? 'unknown', files);
+    if ('error' in policy) {
+        return errorResponse(policy.status, { error: policy.error }, policy.headers);
+    }
+
+    const paths = [];
+    for (const file of policy.files) {
+        const path = normalizePath(joinPath(folder, file.name));
+        if (!path || path === folder) {
+            return errorResponse(400, { error: t('errors.invalidFileName', { name: file.name }) });
+        }
+        await writeFile(path, file);
+        paths.push(path);
+    }
+    return jsonResponse<FilesUploadResponse>({ paths }, { status: 201 });
+};
+
+export const DELETE: APIRoute = async ({ url }) => {
+    const path = normalizePath(url.searchParams.get('path'));
+    if (!path) {
+        return errorResponse(400, { error: t('errors.invalidPath') });
+    }
+
+    try {
+        await deleteEntry(path);
+        return jsonResponse<DeletedResponse>({ deleted: path });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,21 @@
+import type { APIRoute } from 'astro';
+import { normalizePath, renameEntry } from '../../../utils/fileSystem';
+import { apiErrorResponse, errorResponse, jsonResponse } from '../../../utils';
+import type { FilePathResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+    const { path: rawPath, name } = await request.json().catch(() => ({}));
+    const path = normalizePath(rawPath);
+    if (!path || typeof name !== 'string' || normalizePath(name) !== name || !name) {
+        return errorResponse(400, { error: t('errors.filesRenameRequest') });
+    }
+
+    try {
+        return jsonResponse<FilePathResponse>({ path: await renameEntry(path, name) });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import { compressImage, compressedFileName, imageFormats } from '../../../utils/images';
+import { createZipStream, manifestEntry, uniqueEntryName } from '../../../utils/archive';
+import { attachmentHeaders, errorResponse, jsonResponse } from '../../../utils';
+import { checkUploads } from '../../../utils/uploadPolicy';
+import type { ApiErrorBody, ArchiveManifestEntry, CompressImagesResponse, CompressedImage, ImageFormat } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+function numberField(value: FormDataEntryValue | null, fallback: number, min: number, max: number) {
+    if (value === null || value === '') return fallback;
+    const number = Number(value);
+    return Number.isInteger(number) && number >= min && number <= max ? number : null;
+}
+
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+    const formData = await request.formData().catch(() => null);
+    const uploads = (formData?.getAll('file') ?? []).filter((file): file is File => file instanceof File);
+    if (!uploads.length) {
+        return errorResponse(400, { error: t('errors.imagesRequest') });
+    }
+
+    const quality = numberField(formData.get('quality'), 80, 1, 100);
+    const maxDimension = numberField(formData.get('maxDimension'), 1920, 16, 8192);
+    const format = (formData.get('format') || undefined) as ImageFormat | undefined;
+    if (quality === null || maxDimension === null || (format && !imageFormats.includes(format))) {
+        return errorResponse(400, { error: t('errors.imagesOptions', { formats: imageFormats.join(', ') }) });
+    }
+    const policy = await checkUploads('images', clientAddress ?? 'unknown', uploads);
+    if ('error' in policy) {
+        return errorResponse(policy.status, { error: policy.error }, policy.headers);
+    }
+    const { files } = policy;
+
+    // With archive=true, the whole batch is streamed back as a single ZIP instead of JSON, with a manifest.json that also
+    // lists the images that couldn't be compressed
+    if (formData.get('archive') === 'true') {
+        const manifest: ArchiveManifestEntry[] = [];
+        const names = new Set<string>();
+        async function* entries() {
+            for (const file of files) {
+                try {
+                    const output = await compressImage(new Uint8Array(await file.arrayBuffer()), { quality, maxDimension, format });
+                    const name = uniqueEntryName(compressedFileName(file.name, output.format), names);
+                    manifest.push({ originalName: file.name, name, originalSize: file.size, size: output.data.byteLength, savedBytes: file.size - output.data.byteLength });
+                    yield { name, data: output.data };
+                } catch (e) {
+                    console.error(e);
+                    manifest.push({ originalName: file.name, originalSize: file.size, error: t('errors.imageUnsupported') });
+                }
+            }
+            yield manifestEntry(manifest);
+        }
+        return new Response(createZipStream(entries()), { headers: attachmentHeaders('compressed-images.zip', 'application/zip') });
+    }
+
+    const images: CompressedImage[] = [];
+    const errors: { name: string; error: string }[] = [];
+    for (const file of files) {
+        try {
+            const output = await compressImage(new Uint8Array(await file.arrayBuffer()), { quality, maxDimension, format });
+            images.push({
+                originalName: file.name,
+                name: compressedFileName(file.name, output.format),
+                format: output.format,
+                originalSize: file.size,
+                compressedSize: output.data.byteLength,
+                width: output.width,
+                height: output.height,
+                dataUrl: `data:image/${output.format};base64,${output.data.toString('base64')}`
+            });
+        } catch (e) {
+            console.error(e);
+            errors.push({ name: file.name, error: t('errors.imageUnsupported') });
+        }
+    }
+
+    if (!images.length) {
+        return jsonResponse<ApiErrorBody & Pick<CompressImagesResponse, 'errors'>>({ error: t('errors.imagesNoneCompressed'), errors }, { status: 415 });
+    }
+    return jsonResponse<CompressImagesResponse>({
+        images,
+        errors,
+        totalOriginalSize: images.reduce((total, image) => total + image.originalSize, 0),
+        totalCompressedSize: images.reduce((total, image) => total + image.compressedSize, 0)
+    });
+};
@@ -1,19 +1,63 @@
 import type { APIRoute } from 'astro';
 import { purgeCache } from '@netlify/functions';
+import { authenticateRevalidation, checkRateLimit, listPurges, recordPurge, validateTags } from '../../utils/revalidation';
+import { errorResponse, jsonResponse } from '../../utils';
+import type { PurgeLogResponse, PurgeResponse } from '../../types';
+import { t } from '../../utils/requestLocale';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
-    const { tags } = await request.json();
+// Purges the CDN cache for the given tags: POST { "tags": [...] }, authenticated as described in utils/revalidation.ts
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+    const ip = clientAddress ?? 'unknown';
+    const rateLimit = await checkRateLimit(ip);
+    if ('error' in rateLimit) {
+        return errorResponse(rateLimit.status, { error: rateLimit.error }, rateLimit.headers);
+    }
 
-    if (!Array.isArray(tags)) {
-        return new Response(`Bad Request: expected tags attribute with array of strings in the body, got ${typeof tags}`, { status: 400 });
+    // Signatures cover the exact bytes sent, so the body is read as text before parsing it
+    const body = await request.text();
+    const authentication = await authenticateRevalidation(request, body);
+    if ('error' in authentication) {
+        return errorResponse(authentication.status, { error: authentication.error });
     }
 
-    await purgeCache({ tags });
-    return new Response(
-        JSON.stringify({
-            invalidated: tags
-        })
-    );
+    let payload: { tags?: unknown };
+    try {
+        payload = JSON.parse(body);
+    } catch {
+        return errorResponse(400, { error: t('errors.expectedJson') });
+    }
+    const tags = validateTags(payload?.tags);
+    if ('error' in tags) {
+        return errorResponse(tags.status, { error: tags.error });
+    }
+
+    const attempt = { tags: tags.tags, author: request.headers.get('x-author') || 'anonymous', ip, auth: authentication.auth };
+    try {
+        await purgeCache({ tags: tags.tags });
+    } catch (e) {
+        // Failed attempts are logged too, so the timeline doesn't suggest the tags were purged
+        const reason = e instanceof Error ? e.message : String(e);
+        await recordPurge({ ...attempt, error: reason });
+        return errorResponse(502, { error: t('errors.purgeFailed', { reason }) });
+    }
+    const purge = await recordPurge(attempt);
+    return jsonResponse<PurgeResponse>({
+        invalidated: tags.tags,
+        purge
+    });
+};
+
+// The audit log of past purges, newest first. It includes caller IPs, so it needs the same credentials as a purge.
+export const GET: APIRoute = async ({ request, clientAddress }) => {
+    const rateLimit = await checkRateLimit(clientAddress ?? 'unknown');
+    if ('error' in rateLimit) {
+        return errorResponse(rateLimit.status, { error: rateLimit.error }, rateLimit.headers);
+    }
+    const authentication = await authenticateRevalidation(request, '');
+    if ('error' in authentication) {
+        return errorResponse(authentication.status, { error: authentication.error });
+    }
+    return jsonResponse<PurgeLogResponse>({ purges: await listPurges() });
 };
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { getShape } from '../../../utils/shapes';
+import { exportSizeFromUrl, shapeSvg } from '../../../utils/shapeSvg';
+import { rasterizeSvg } from '../../../utils/images';
+import { cacheTagsFor } from '../../../utils/cacheTags';
+import { attachmentHeaders, cacheHeaders, errorResponse, generateBlob } from '../../../utils';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Renders the stored shape as a transparent ?size=...px PNG; see [key].svg.ts
+export const GET: APIRoute = async ({ params, url }) => {
+    const shape = await getShape(params.key);
+    if (!shape) {
+        return errorResponse(404, { error: t('errors.shapeNotFound', { key: params.key }) });
+    }
+    const size = exportSizeFromUrl(url, shape.parameters.size, t);
+    if ('error' in size) {
+        return errorResponse(size.status, { error: size.error });
+    }
+
+    const png = await rasterizeSvg(shapeSvg(generateBlob(shape.parameters), size.size));
+    return new Response(png, {
+        headers: {
+            ...cacheHeaders('shapeImage', cacheTagsFor('/api/shapes/[key].png', { key: params.key })),
+            ...(url.searchParams.get('download') === 'true' ? attachmentHeaders(`${params.key}.png`, 'image/png') : { 'Content-Type': 'image/png' }),
+            'Content-Length': String(png.length)
+        }
+    });
+};
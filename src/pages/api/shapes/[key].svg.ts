@@ -0,0 +1,29 @@
+import type { APIRoute } from 'astro';
+import { getShape } from '../../../utils/shapes';
+import { exportSizeFromUrl, shapeSvg } from '../../../utils/shapeSvg';
+import { cacheTagsFor } from '../../../utils/cacheTags';
+import { attachmentHeaders, cacheHeaders, errorResponse, generateBlob } from '../../../utils';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Renders the stored shape as an SVG image at ?size=... pixels; ?download=true serves it as an attachment.
+// The outline is regenerated from the saved seed, so the output is the same on every request and can be cached and hotlinked.
+export const GET: APIRoute = async ({ params, url }) => {
+    const shape = await getShape(params.key);
+    if (!shape) {
+        return errorResponse(404, { error: t('errors.shapeNotFound', { key: params.key }) });
+    }
+    const size = exportSizeFromUrl(url, shape.parameters.size, t);
+    if ('error' in size) {
+        return errorResponse(size.status, { error: size.error });
+    }
+
+    const svg = shapeSvg(generateBlob(shape.parameters), size.size);
+    return new Response(svg, {
+        headers: {
+            ...cacheHeaders('shapeImage', cacheTagsFor('/api/shapes/[key].svg', { key: params.key })),
+            ...(url.searchParams.get('download') === 'true' ? attachmentHeaders(`${params.key}.svg`, 'image/svg+xml') : { 'Content-Type': 'image/svg+xml' })
+        }
+    });
+};
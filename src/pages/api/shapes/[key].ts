@@ -0,0 +1,66 @@
+import type { APIRoute } from 'astro';
+import { createShape, deleteShape, getShape, readShapeBody, updateShape, writeOptionsFromRequest } from '../../../utils/shapes';
+import { cacheTagsFor } from '../../../utils/cacheTags';
+import { apiErrorResponse, cacheHeaders, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import type { DeletedResponse, StoredShape } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params }) => {
+    const shape = await getShape(params.key);
+    if (!shape) {
+        return errorResponse(404, { error: t('errors.shapeNotFound', { key: params.key }) });
+    }
+    return jsonResponse<StoredShape>(shape, { headers: cacheHeaders('durable', cacheTagsFor('/api/shapes/[key]', { key: params.key })) });
+};
+
+// Creates the shape under the key from the URL; replacing an existing shape requires ?overwrite=true
+export const PUT: APIRoute = async ({ params, request, url }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    const body = await readShapeBody(request, { overrides: { name: params.key } });
+    if ('error' in body) {
+        return errorResponse(body.status, { error: body.error, issues: body.issues });
+    }
+
+    try {
+        const shape = await createShape(body.parameters, writeOptionsFromRequest(request, url));
+        return jsonResponse<StoredShape>(shape, { status: 201 });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
+
+// Updates some of the shape's parameters; a new "name" renames it, failing with a 409 if taken unless ?overwrite=true
+export const PATCH: APIRoute = async ({ params, request, url }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    const body = await readShapeBody(request, { partial: true });
+    if ('error' in body) {
+        return errorResponse(body.status, { error: body.error, issues: body.issues });
+    }
+
+    try {
+        return jsonResponse<StoredShape>(await updateShape(params.key, body.parameters, writeOptionsFromRequest(request, url)));
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
+
+export const DELETE: APIRoute = async ({ params }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        await deleteShape(params.key);
+        return jsonResponse<DeletedResponse>({ deleted: params.key });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { restoreShapeVersion, writeOptionsFromRequest } from '../../../../../../utils/shapes';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../../../../utils';
+import type { StoredShape } from '../../../../../../types';
+import { t } from '../../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Saves the parameters of an earlier version as the shape's newest version
+export const POST: APIRoute = async ({ params, request, url }) => {
+    if (uploadDisabled) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        return jsonResponse<StoredShape>(await restoreShapeVersion(params.key, Number(params.version), writeOptionsFromRequest(request, url)));
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { getShape } from '../../../../../utils/shapes';
+import { diffParameters, listShapeVersions, requireShapeVersion } from '../../../../../utils/shapeHistory';
+import { apiErrorResponse, errorResponse, jsonResponse } from '../../../../../utils';
+import type { ShapeVersionDiffResponse } from '../../../../../types';
+import { t } from '../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// The parameters that changed between two versions: ?from=<version>&to=<version>, where "to" defaults to the newest
+export const GET: APIRoute = async ({ params, url }) => {
+    const from = Number(url.searchParams.get('from'));
+    const to = url.searchParams.has('to') ? Number(url.searchParams.get('to')) : (await listShapeVersions(params.key, await getShape(params.key)))[0]?.version;
+    if (!Number.isInteger(from) || from < 1 || !Number.isInteger(to) || to < 1) {
+        return errorResponse(400, { error: t('errors.shapeVersionQuery') });
+    }
+
+    try {
+        const [fromVersion, toVersion] = await Promise.all([requireShapeVersion(params.key, from), requireShapeVersion(params.key, to)]);
+        return jsonResponse<ShapeVersionDiffResponse>({ from, to, changes: diffParameters(fromVersion.parameters, toVersion.parameters) });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,17 @@
+import type { APIRoute } from 'astro';
+import { getShape } from '../../../../../utils/shapes';
+import { listShapeVersions } from '../../../../../utils/shapeHistory';
+import { errorResponse, jsonResponse } from '../../../../../utils';
+import type { ShapeVersionListResponse } from '../../../../../types';
+import { t } from '../../../../../utils/requestLocale';
+
+export const prerender = false;
+
+// The shape's saved versions, newest (the current parameters) first
+export const GET: APIRoute = async ({ params }) => {
+    const shape = await getShape(params.key);
+    if (!shape) {
+        return errorResponse(404, { error: t('errors.shapeNotFound', { key: params.key }) });
+    }
+    return jsonResponse<ShapeVersionListResponse>({ versions: await listShapeVersions(params.key, shape) });
+};
@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+import { exportShapes } from '../../../utils/shapeTransfer';
+import { attachmentHeaders, getNetlifyContext } from '../../../utils';
+
+export const prerender = false;
+
+// Downloads every shape with its metadata as NDJSON, named after the deploy context it comes from
+export const GET: APIRoute = async () => {
+    const fileName = `shapes-${getNetlifyContext() ?? 'local'}-${new Date().toISOString().slice(0, 10)}.ndjson`;
+    return new Response(exportShapes(), { headers: { ...attachmentHeaders(fileName, 'application/x-ndjson'), 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,30 @@
+import type { APIRoute } from 'astro';
+import { conflictStrategies, importShapes, readImportBody } from '../../../utils/shapeTransfer';
+import { writeOptionsFromRequest } from '../../../utils/shapes';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import type { ShapeConflictStrategy, ShapeImportReport } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Imports NDJSON as produced by /api/shapes/export: ?onConflict=skip|overwrite|rename decides what happens to shapes whose
+// name is taken, and ?dryRun=true only reports what would happen. The report lists the outcome of every line, and when
+// the import ran out of time, the line that ?fromLine=<line> resumes it from.
+export const POST: APIRoute = async ({ request, url }) => {
+    const dryRun = url.searchParams.get('dryRun') === 'true';
+    const onConflict = (url.searchParams.get('onConflict') ?? 'skip') as ShapeConflictStrategy;
+    const fromLine = Number(url.searchParams.get('fromLine') ?? 1);
+    if (!conflictStrategies.includes(onConflict) || !Number.isSafeInteger(fromLine) || fromLine < 1) {
+        return errorResponse(400, { error: t('errors.shapeImportQuery', { strategies: conflictStrategies.join(', ') }) });
+    }
+    if (uploadDisabled && !dryRun) {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        const ndjson = await readImportBody(request);
+        return jsonResponse<ShapeImportReport>(await importShapes(ndjson, { dryRun, onConflict, fromLine, author: writeOptionsFromRequest(request, url).author }));
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
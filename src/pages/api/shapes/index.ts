@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { listShapes, type ShapeSort } from '../../../utils/shapes';
+import { cacheTagsFor } from '../../../utils/cacheTags';
+import { cacheHeaders, errorResponse, jsonResponse } from '../../../utils';
+import type { ShapeListPage } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+const sorts: ShapeSort[] = ['created', 'name'];
+
+// Lists shapes a page at a time: ?sort=created|name&prefix=...&q=...&limit=...&cursor=<nextCursor of the previous page>
+export const GET: APIRoute = async ({ url }) => {
+    const sort = (url.searchParams.get('sort') ?? 'created') as ShapeSort;
+    const limit = Number(url.searchParams.get('limit') ?? 20);
+    if (!sorts.includes(sort) || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+        return errorResponse(400, { error: t('errors.shapeListQuery', { sorts: sorts.join(', ') }) });
+    }
+
+    try {
+        const page = await listShapes({
+            sort,
+            limit,
+            prefix: url.searchParams.get('prefix') ?? '',
+            search: url.searchParams.get('q') ?? '',
+            cursor: url.searchParams.get('cursor')
+        });
+        return jsonResponse<ShapeListPage>(page, { headers: cacheHeaders('shapeListing', cacheTagsFor('/api/shapes')) });
+    } catch (e) {
+        console.error(e);
+        return errorResponse(500, { error: t('errors.shapeListFailed') });
+    }
+};
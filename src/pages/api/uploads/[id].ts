@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { deleteUpload, getUploadStatus } from '../../../utils/uploads';
+import { apiErrorResponse, jsonResponse } from '../../../utils';
+import type { DeletedResponse, UploadStatusResponse } from '../../../types';
+
+export const prerender = false;
+
+// The upload session along with the indexes of the parts received so far, for resuming
+export const GET: APIRoute = async ({ params }) => {
+    try {
+        return jsonResponse<UploadStatusResponse>({ upload: await getUploadStatus(params.id) });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
+
+// Aborts the upload and discards its parts
+export const DELETE: APIRoute = async ({ params }) => {
+    try {
+        await deleteUpload(params.id);
+        return jsonResponse<DeletedResponse>({ deleted: params.id });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
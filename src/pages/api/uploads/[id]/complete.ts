@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { assembleUpload, deleteUpload, uploadFilePath, uploadRoute } from '../../../../utils/uploads';
+import { checkUploadType, consumeUploadQuota } from '../../../../utils/uploadPolicy';
+import { writeFile } from '../../../../utils/fileSystem';
+import { documentFormatFromFileName } from '../../../../utils/converter';
+import { createConversionJob, startConversionJob } from '../../../../utils/conversionJobs';
+import { apiErrorResponse, errorResponse, jsonResponse } from '../../../../utils';
+import type { DocumentFormat, UploadCompleteResponse } from '../../../../types';
+
+export const prerender = false;
+
+// Reassembles and verifies the file, counts it against the daily quota, then hands it to the upload's target: responds
+// with the stored { path }, or with the { job } converting it
+export const POST: APIRoute = async ({ params, request, locals, clientAddress }) => {
+    try {
+        const { upload, file } = await assembleUpload(params.id);
+        // Sending the same parts again can't fix the type, so the upload is discarded
+        const type = await checkUploadType(uploadRoute(upload.target), file);
+        if ('error' in type) {
+            await deleteUpload(upload.id);
+            return errorResponse(type.status, { error: type.error });
+        }
+        const quota = await consumeUploadQuota(clientAddress ?? 'unknown', 1, file.size);
+        if ('error' in quota) {
+            return errorResponse(quota.status, { error: quota.error }, quota.headers);
+        }
+
+        if (upload.target.kind === 'files') {
+            const path = uploadFilePath(upload);
+            await writeFile(path, file);
+            await deleteUpload(upload.id);
+            return jsonResponse<UploadCompleteResponse>({ path }, { status: 201 });
+        }
+
+        const job = await createConversionJob(file, documentFormatFromFileName(file.name), upload.target.targetFormat as DocumentFormat);
+        await deleteUpload(upload.id);
+        await startConversionJob(job, request, locals);
+        return jsonResponse<UploadCompleteResponse>({ job }, { status: 202 });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,17 @@
+import type { APIRoute } from 'astro';
+import { storeUploadPart } from '../../../../../utils/uploads';
+import { apiErrorResponse, jsonResponse } from '../../../../../utils';
+import type { UploadPartResponse } from '../../../../../types';
+
+export const prerender = false;
+
+// The raw bytes of part N, with their hex SHA-256 in the X-Chunk-Sha256 header
+export const PUT: APIRoute = async ({ params, request }) => {
+    const data = await request.arrayBuffer();
+    try {
+        const part = await storeUploadPart(params.id, Number(params.index), data, request.headers.get('x-chunk-sha256'));
+        return jsonResponse<UploadPartResponse>({ part });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
@@ -0,0 +1,23 @@
+import type { APIRoute } from 'astro';
+import { createUpload } from '../../../utils/uploads';
+import { apiErrorResponse, errorResponse, jsonResponse, uploadDisabled } from '../../../utils';
+import type { UploadSessionResponse } from '../../../types';
+import { t } from '../../../utils/requestLocale';
+
+export const prerender = false;
+
+// Starts a chunked upload: { fileName, size, type, sha256, target }, where target is { kind: 'files', path } for the
+// file manager or { kind: 'convert', targetFormat } for a conversion job. The response says how to split the file, and
+// carries the file name as sanitized by the upload policy.
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+    const input = await request.json().catch(() => null);
+    if (uploadDisabled && input?.target?.kind === 'files') {
+        return errorResponse(403, { error: t('errors.uploadsDisabled') });
+    }
+
+    try {
+        return jsonResponse<UploadSessionResponse>({ upload: await createUpload(input, clientAddress ?? 'unknown') }, { status: 201 });
+    } catch (e) {
+        return apiErrorResponse(e);
+    }
+};
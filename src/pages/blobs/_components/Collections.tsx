@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { uploadDisabled } from '../../../utils';
+import { apiClient } from '../../../utils/apiClient';
+import { translator, type Locale } from '../../../utils/i18n';
+import type { ShapeCollection, ShareLink } from '../../../types.ts';
+
+interface Props {
+    locale?: Locale;
+    lastMutationTime: number;
+    // The shape selected in the stored shapes list, which "Add selected shape" adds
+    selectedShapeKey: string | null;
+}
+
+const expiryOptions = [1, 7, 30, 90];
+
+export default function Collections(props: Props) {
+    const { locale, lastMutationTime, selectedShapeKey } = props;
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const [collections, setCollections] = useState<ShapeCollection[]>([]);
+    const [selectedId, setSelectedId] = useState<string>(null);
+    const [shares, setShares] = useState<ShareLink[]>([]);
+    const [expiresInDays, setExpiresInDays] = useState<number>(30);
+    // Shown once: the token of a link can't be retrieved after it was created
+    const [newLinkUrl, setNewLinkUrl] = useState<string>(null);
+    const [linkCopied, setLinkCopied] = useState<boolean>(false);
+    const [error, setError] = useState<string>(null);
+
+    const selected = collections.find((collection) => collection.id === selectedId);
+
+    const getCollections = async () => {
+        try {
+            setCollections((await api.listCollections()).collections);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const getShares = async (id: string) => {
+        try {
+            setShares((await api.listShareLinks(id)).shares);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    // Runs a change to the collections and refreshes them, or shows why it failed
+    const mutate = async (change: () => Promise<unknown>) => {
+        try {
+            await change();
+        } catch (e) {
+            setError((e as Error).message);
+            return false;
+        }
+        setError(null);
+        await getCollections();
+        return true;
+    };
+
+    const createCollection = async () => {
+        const name = prompt(t('collections.promptName'))?.trim();
+        if (!name) return;
+        await mutate(async () => setSelectedId((await api.createCollection({ name })).collection.id));
+    };
+
+    const setShapeKeys = (shapeKeys: string[]) => mutate(() => api.updateCollection(selectedId, { shapeKeys }));
+
+    const deleteCollection = async () => {
+        if (!confirm(t('collections.confirmDelete', { name: selected.name }))) return;
+        if (await mutate(() => api.deleteCollection(selectedId))) setSelectedId(null);
+    };
+
+    const createShareLink = async () => {
+        try {
+            const { url } = await api.createShareLink(selectedId, expiresInDays);
+            setNewLinkUrl(url);
+            setLinkCopied(false);
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+        getShares(selectedId);
+    };
+
+    const copyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(newLinkUrl);
+            setLinkCopied(true);
+        } catch {
+            setError(t('shapes.copyFailed'));
+        }
+    };
+
+    const revokeShareLink = async (share: ShareLink) => {
+        if (!confirm(t('collections.confirmRevoke'))) return;
+        try {
+            await api.revokeShareLink(selectedId, share.id);
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+        getShares(selectedId);
+    };
+
+    const shareStatus = (share: ShareLink) => {
+        const format = (time: number) => new Date(time).toLocaleDateString(locale);
+        if (share.revokedAt) return t('collections.revoked', { date: format(share.revokedAt) });
+        if (share.expiresAt <= Date.now()) return t('collections.expired', { date: format(share.expiresAt) });
+        return t('collections.active', { date: format(share.expiresAt) });
+    };
+
+    // Renaming or deleting a shape also changes the collections it is in
+    useEffect(() => {
+        getCollections();
+    }, [lastMutationTime, selectedShapeKey]);
+
+    useEffect(() => {
+        setNewLinkUrl(null);
+        setShares([]);
+        if (selectedId) getShares(selectedId);
+    }, [selectedId]);
+
+    return (
+        <>
+            <h2 className="mb-4 text-xl text-center sm:text-xl">{t('collections.title')}</h2>
+            <div className="w-full bg-white rounded-lg text-gray-900">
+                <div className="flex flex-wrap gap-2 p-4 border-b border-gray-200">
+                    {collections.map((collection) => (
+                        <button
+                            key={collection.id}
+                            className={
+                                'px-3 py-1.5 text-sm rounded-sm cursor-pointer transition hover:bg-complementary/20' +
+                                (collection.id === selectedId ? ' bg-complementary/20' : '')
+                            }
+                            onClick={() => setSelectedId(collection.id)}
+                        >
+                            {collection.name} <span className="text-gray-500">{t('collections.shapeCount', { count: collection.shapeKeys.length })}</span>
+                        </button>
+                    ))}
+                    {!collections.length && <span className="text-sm">{t('collections.empty')}</span>}
+                </div>
+                {selected && (
+                    <div className="flex flex-col gap-4 p-4">
+                        <div className="flex flex-wrap gap-2">
+                            {selected.shapeKeys.map((key) => (
+                                <span key={key} className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 rounded-sm">
+                                    {key}
+                                    <button
+                                        className="px-1 cursor-pointer"
+                                        title={t('collections.removeShape', { key })}
+                                        aria-label={t('collections.removeShape', { key })}
+                                        onClick={() => setShapeKeys(selected.shapeKeys.filter((shapeKey) => shapeKey !== key))}
+                                        disabled={uploadDisabled}
+                                    >
+                                        ×
+                                    </button>
+                                </span>
+                            ))}
+                            {!selected.shapeKeys.length && <span className="text-sm">{t('collections.noShapes')}</span>}
+                        </div>
+                        <div className="border-t border-gray-200 pt-4">
+                            <h3 className="mb-2 text-sm font-bold">{t('collections.shares')}</h3>
+                            {newLinkUrl && (
+                                <div className="flex flex-col gap-2 mb-4 text-sm">
+                                    <span>{t('collections.linkCreated')}</span>
+                                    <div className="flex gap-2">
+                                        <input readOnly value={newLinkUrl} className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-sm" />
+                                        <button className="btn" onClick={copyLink}>
+                                            {linkCopied ? t('collections.copied') : t('collections.copy')}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            <ul className="flex flex-col gap-1 text-sm">
+                                {shares.map((share) => (
+                                    <li key={share.id} className="flex items-center justify-between gap-2">
+                                        <span>
+                                            <code>{share.id}</code> · {shareStatus(share)}
+                                        </span>
+                                        {!share.revokedAt && share.expiresAt > Date.now() && (
+                                            <button className="text-xs underline cursor-pointer" onClick={() => revokeShareLink(share)} disabled={uploadDisabled}>
+                                                {t('collections.revoke')}
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                                {!shares.length && <li>{t('collections.noShares')}</li>}
+                            </ul>
+                        </div>
+                    </div>
+                )}
+            </div>
+            <div className="flex flex-wrap justify-center gap-4 mt-6">
+                <button className="btn" onClick={createCollection} disabled={uploadDisabled}>
+                    {t('collections.create')}
+                </button>
+                {selected && (
+                    <>
+                        <button
+                            className="btn"
+                            onClick={() => setShapeKeys([...selected.shapeKeys, selectedShapeKey])}
+                            disabled={uploadDisabled || !selectedShapeKey || selected.shapeKeys.includes(selectedShapeKey)}
+                        >
+                            {t('collections.addSelected')}
+                        </button>
+                        <label className="flex items-center gap-2 text-sm">
+                            {t('collections.validFor')}
+                            <select
+                                value={expiresInDays}
+                                onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                                className="px-2 py-1.5 text-gray-900 border border-gray-300 rounded-sm"
+                            >
+                                {expiryOptions.map((days) => (
+                                    <option key={days} value={days}>
+                                        {t('collections.days', { count: days })}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <button className="btn" onClick={createShareLink} disabled={uploadDisabled}>
+                            {t('collections.share')}
+                        </button>
+                        <button className="btn" onClick={deleteCollection} disabled={uploadDisabled}>
+                            {t('collections.delete')}
+                        </button>
+                    </>
+                )}
+            </div>
+            {error && <p className="mt-4 text-center text-sm">{error}</p>}
+        </>
+    );
+}
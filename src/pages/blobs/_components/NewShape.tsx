@@ -1,35 +1,101 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { Dispatch, SetStateAction } from 'react';
 import ShapePreview from './ShapePreview.tsx';
 import { generateBlob, uploadDisabled } from '../../../utils';
-import type { BlobProps } from '../../../types.ts';
+import { apiClient, type ApiRequestError } from '../../../utils/apiClient';
+import { shapeQuery } from '../../../utils/shapeQuery';
+import { shapeParameterRanges, validateShapeParameters } from '../../../utils/validation';
+import { translator, type Locale, type MessageKey } from '../../../utils/i18n';
+import type { BlobParameterProps, BlobProps, ShapeListItem, ValidationIssue } from '../../../types.ts';
 
 interface Props {
+    locale?: Locale;
+    // Parameters to start with instead of a random shape; generated the same way on the server and in the browser
+    initialParameters?: Partial<BlobParameterProps>;
     setLastMutationTime?: Dispatch<SetStateAction<number>>;
+    // A stored shape loaded for editing; saving then updates it instead of uploading a new one
+    editingShape?: ShapeListItem;
+    onStopEditing?: () => void;
+}
+
+type NumericParameter = 'edges' | 'growth' | 'size' | 'angle';
+
+const sliders: { field: NumericParameter; label: MessageKey; step?: number }[] = [
+    { field: 'edges', label: 'shapes.edges' },
+    { field: 'growth', label: 'shapes.growth' },
+    { field: 'size', label: 'shapes.size', step: 16 },
+    { field: 'angle', label: 'shapes.angle' }
+];
+
+// Color inputs only accept the six-digit form
+function expandHexColor(color: string) {
+    return color.length === 4 ? `#${[...color.slice(1)].map((digit) => digit + digit).join('')}` : color;
 }
 
 export default function NewShape(props: Props) {
-    const { setLastMutationTime } = props;
-    const [blobData, setBlobData] = useState<BlobProps>();
+    const { locale, initialParameters, setLastMutationTime, editingShape, onStopEditing } = props;
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const [blobData, setBlobData] = useState<BlobProps>(() => (initialParameters ? generateBlob(initialParameters) : undefined));
+    const [seedLocked, setSeedLocked] = useState<boolean>(false);
     const [wasUploaded, setWasUploaded] = useState<boolean>(false);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+    // The server's confirmation of the last upload, shown until the shape changes
+    const [uploadMessage, setUploadMessage] = useState<string>(null);
+    const wasEditing = useRef(false);
+    const parameters = blobData?.parameters;
+
+    // Regenerates the outline from the given parameters; the same seed always yields the same shape
+    const updateParameters = (changes: Partial<BlobParameterProps>) => {
+        setBlobData(generateBlob({ ...parameters, ...changes }));
+        setWasUploaded(false);
+        setIssues([]);
+        setUploadMessage(null);
+    };
 
     const randomizeBlob = () => {
-        setBlobData(generateBlob());
+        // A locked seed survives randomizing, with the other parameters drawn at random instead of from the seed,
+        // and a shape being edited keeps its name
+        const keepSeed = seedLocked && parameters;
+        setBlobData(
+            generateBlob(
+                {
+                    ...(keepSeed && { seed: parameters.seed }),
+                    ...(editingShape && parameters && { name: parameters.name })
+                },
+                keepSeed ? Math.random : undefined
+            )
+        );
         setWasUploaded(false);
+        setIssues([]);
+        setUploadMessage(null);
+    };
+
+    const updateColor = (index: number, color: string) => {
+        updateParameters({ colors: parameters.colors.map((current, i) => (i === index ? color : current)) });
     };
 
     const uploadBlob = async () => {
-        const response = await fetch('/api/blobs', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(blobData.parameters)
-        });
-        const data = await response.json();
-        if (data.message) {
-            console.log(data.message);
+        const validation = validateShapeParameters(blobData.parameters, { t });
+        if (validation.issues) {
+            setIssues(validation.issues);
+            return;
         }
+
+        try {
+            if (editingShape) {
+                await api.updateShape(editingShape.key, validation.parameters);
+            } else {
+                setUploadMessage((await api.storeShape(validation.parameters)).message);
+            }
+        } catch (e) {
+            setIssues((e as ApiRequestError).issues ?? [{ field: '', message: (e as Error).message }]);
+            return;
+        }
+        setIssues([]);
         setWasUploaded(true);
         setLastMutationTime(Date.now());
+        if (editingShape) onStopEditing?.();
     };
 
     useEffect(() => {
@@ -38,20 +104,132 @@ export default function NewShape(props: Props) {
         }
     }, [blobData]);
 
+    // Keeps the address a link to the shape on screen
+    useEffect(() => {
+        if (parameters) history.replaceState(history.state, '', `?${shapeQuery(parameters)}`);
+    }, [blobData]);
+
+    useEffect(() => {
+        if (editingShape) {
+            wasEditing.current = true;
+            setBlobData(generateBlob(editingShape.parameters));
+            setSeedLocked(true);
+            setWasUploaded(false);
+            setIssues([]);
+            setUploadMessage(null);
+        } else if (wasEditing.current) {
+            // Done editing: back to a new random shape
+            wasEditing.current = false;
+            setBlobData(undefined);
+        }
+    }, [editingShape]);
+
     return (
         <>
-            <h2 className="mb-4 text-xl text-center sm:text-xl">New Random Shape</h2>
+            <h2 className="mb-4 text-xl text-center sm:text-xl">{editingShape ? t('shapes.editingTitle', { key: editingShape.key }) : t('shapes.newTitle')}</h2>
             <div className="w-full mb-6 bg-white rounded-lg">
-                <div className="p-4 text-center text-gray-900 border-b border-gray-200 min-h-14">{blobData && <span>{blobData.parameters?.name}</span>}</div>
+                <div className="p-4 text-center text-gray-900 border-b border-gray-200 min-h-14">
+                    {parameters && (
+                        <input
+                            type="text"
+                            aria-label={t('shapes.name')}
+                            value={parameters.name}
+                            onChange={(e) => updateParameters({ name: e.target.value })}
+                            className="w-full px-3 py-1.5 text-sm text-center border border-gray-300 rounded-sm"
+                        />
+                    )}
+                </div>
                 <div className="p-4 aspect-square text-primary">{blobData && <ShapePreview {...blobData} />}</div>
+                {parameters && (
+                    <div className="p-4 space-y-3 text-sm text-gray-900 border-t border-gray-200">
+                        {sliders.map(({ field, label, step }) => {
+                            const [min, max] = shapeParameterRanges[field];
+                            const value = parameters[field] ?? (field === 'angle' ? 180 : min);
+                            return (
+                                <label key={field} className="flex items-center gap-3">
+                                    <span className="w-28 shrink-0">{t(label)}</span>
+                                    <input
+                                        type="range"
+                                        min={min}
+                                        max={max}
+                                        step={step ?? 1}
+                                        value={value}
+                                        onChange={(e) => updateParameters({ [field]: Number(e.target.value) })}
+                                        className="flex-1"
+                                    />
+                                    <span className="w-12 text-right tabular-nums">{value}</span>
+                                </label>
+                            );
+                        })}
+                        <div className="flex items-center gap-3">
+                            <span className="w-28 shrink-0">{t('shapes.seed')}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={parameters.seed ?? ''}
+                                onChange={(e) => e.target.value && updateParameters({ seed: Number(e.target.value) })}
+                                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-sm"
+                            />
+                            <label className="flex items-center gap-1">
+                                <input type="checkbox" checked={seedLocked} onChange={(e) => setSeedLocked(e.target.checked)} />
+                                {t('shapes.lockSeed')}
+                            </label>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="w-28 shrink-0">{t('shapes.colors')}</span>
+                            {parameters.colors.map((color, index) => (
+                                <input
+                                    key={index}
+                                    type="color"
+                                    aria-label={t('shapes.colorStop', { index: index + 1 })}
+                                    value={expandHexColor(color)}
+                                    onChange={(e) => updateColor(index, e.target.value)}
+                                    className="w-8 h-8 cursor-pointer"
+                                />
+                            ))}
+                            <button
+                                className="px-2 border border-gray-300 rounded-sm disabled:opacity-40"
+                                onClick={() => updateParameters({ colors: [...parameters.colors, parameters.colors.at(-1)] })}
+                                disabled={parameters.colors.length >= shapeParameterRanges.colors[1]}
+                                title={t('shapes.addColor')}
+                            >
+                                +
+                            </button>
+                            <button
+                                className="px-2 border border-gray-300 rounded-sm disabled:opacity-40"
+                                onClick={() => updateParameters({ colors: parameters.colors.slice(0, -1) })}
+                                disabled={parameters.colors.length <= shapeParameterRanges.colors[0]}
+                                title={t('shapes.removeColor')}
+                            >
+                                −
+                            </button>
+                        </div>
+                    </div>
+                )}
+                {issues.length > 0 && (
+                    <ul className="p-4 space-y-1 text-sm text-red-700 border-t border-gray-200">
+                        {issues.map(({ field, message }) => (
+                            <li key={field + message}>
+                                {field && <strong>{field}: </strong>}
+                                {message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {uploadMessage && <p className="p-4 text-sm text-green-700 border-t border-gray-200">{uploadMessage}</p>}
             </div>
             <div className="flex flex-wrap justify-center gap-4">
                 <button className="btn" onClick={randomizeBlob}>
-                    Randomize
+                    {t('shapes.randomize')}
                 </button>
                 <button className="btn" onClick={uploadBlob} disabled={uploadDisabled || wasUploaded || !blobData}>
-                    Upload
+                    {editingShape ? t('shapes.save') : t('shapes.upload')}
                 </button>
+                {editingShape && (
+                    <button className="btn" onClick={onStopEditing}>
+                        {t('shapes.cancel')}
+                    </button>
+                )}
             </div>
         </>
     );
@@ -1,18 +1,39 @@
 import { useState } from 'react';
+import Collections from './Collections.tsx';
 import NewShape from './NewShape.tsx';
 import StoredShapes from './StoredShapes.tsx';
+import type { Locale } from '../../../utils/i18n';
+import type { BlobParameterProps, ShapeListItem } from '../../../types.ts';
 
-export default function ShapeEditor() {
+interface Props {
+    locale?: Locale;
+    // From the page URL, for the first shape shown in the editor
+    initialParameters?: Partial<BlobParameterProps>;
+}
+
+export default function ShapeEditor(props: Props) {
+    const { locale, initialParameters } = props;
     const [lastMutationTime, setLastMutationTime] = useState<number>(null);
+    const [editingShape, setEditingShape] = useState<ShapeListItem>(null);
+    const [selectedShapeKey, setSelectedShapeKey] = useState<string>(null);
 
     return (
-        <div className="flex flex-col gap-8 md:flex-row">
-            <div className="flex-1">
-                <NewShape setLastMutationTime={setLastMutationTime} />
-            </div>
-            <div className="flex-1">
-                <StoredShapes lastMutationTime={lastMutationTime} />
+        <div className="flex flex-col gap-12">
+            <div className="flex flex-col gap-8 md:flex-row">
+                <div className="flex-1">
+                    <NewShape
+                        locale={locale}
+                        initialParameters={initialParameters}
+                        setLastMutationTime={setLastMutationTime}
+                        editingShape={editingShape}
+                        onStopEditing={() => setEditingShape(null)}
+                    />
+                </div>
+                <div className="flex-1">
+                    <StoredShapes locale={locale} lastMutationTime={lastMutationTime} onEdit={setEditingShape} onSelect={setSelectedShapeKey} />
+                </div>
             </div>
+            <Collections locale={locale} lastMutationTime={lastMutationTime} selectedShapeKey={selectedShapeKey} />
         </div>
     );
 }
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { uploadDisabled } from '../../../utils';
+import { apiClient } from '../../../utils/apiClient';
+import { translator, type Locale } from '../../../utils/i18n';
+import type { ShapeVersion, ShapeVersionDiffResponse, StoredShape } from '../../../types.ts';
+
+interface Props {
+    locale?: Locale;
+    shapeKey: string;
+    lastMutationTime: number;
+    onRestored: (shape: StoredShape) => void;
+}
+
+function formatValue(value: unknown) {
+    if (value === null) return '—';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+export default function ShapeHistory(props: Props) {
+    const { locale, shapeKey, lastMutationTime, onRestored } = props;
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const [versions, setVersions] = useState<ShapeVersion[]>(null);
+    const [diff, setDiff] = useState<ShapeVersionDiffResponse>(null);
+    const [error, setError] = useState<string>(null);
+
+    const getVersions = async () => {
+        try {
+            setVersions((await api.listShapeVersions(shapeKey)).versions);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const describeChange = (version: ShapeVersion) => {
+        if (version.change === 'renamed') return t('shapes.history.renamed', { key: version.renamedFrom });
+        if (version.change === 'restored') return t('shapes.history.restored', { version: version.restoredFrom });
+        return t(version.change === 'created' ? 'shapes.history.created' : 'shapes.history.updated');
+    };
+
+    const compare = async (version: number) => {
+        try {
+            setDiff(await api.diffShapeVersions(shapeKey, version));
+            setError(null);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+    };
+
+    const restore = async (version: number) => {
+        if (!confirm(t('shapes.history.confirmRestore', { version }))) return;
+        try {
+            const shape = await api.restoreShapeVersion(shapeKey, version);
+            setError(null);
+            setDiff(null);
+            onRestored(shape);
+        } catch (e) {
+            setError((e as Error).message);
+        }
+        getVersions();
+    };
+
+    useEffect(() => {
+        setDiff(null);
+        getVersions();
+    }, [shapeKey, lastMutationTime]);
+
+    return (
+        <div className="w-full mt-6 bg-white rounded-lg text-sm text-gray-900">
+            {versions ? (
+                <ol className="overflow-y-auto divide-y divide-gray-200 max-h-64">
+                    {versions.map((version, index) => (
+                        <li key={version.version} className="flex items-center justify-between gap-2 px-4 py-2">
+                            <span>
+                                <strong>{t('shapes.history.version', { version: version.version })}</strong>
+                                {index === 0 && <span className="text-gray-500"> ({t('shapes.history.current')})</span>} · {describeChange(version)}
+                                <br />
+                                <span className="text-xs text-gray-500">
+                                    {t('shapes.history.savedBy', { date: new Date(version.savedAt).toLocaleString(locale), author: version.author })}
+                                </span>
+                            </span>
+                            {index > 0 && (
+                                <span className="flex gap-3 text-xs">
+                                    <button className="underline cursor-pointer" onClick={() => compare(version.version)}>
+                                        {t('shapes.history.compare')}
+                                    </button>
+                                    <button className="underline cursor-pointer" onClick={() => restore(version.version)} disabled={uploadDisabled}>
+                                        {t('shapes.history.restore')}
+                                    </button>
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            ) : (
+                <p className="p-4 text-gray-500">{t('shapes.history.loading')}</p>
+            )}
+            {diff && (
+                <div className="p-4 border-t border-gray-200">
+                    <h3 className="mb-2 font-bold">{t('shapes.history.diffTitle', { from: diff.from })}</h3>
+                    {diff.changes.length ? (
+                        <ul className="flex flex-col gap-1">
+                            {diff.changes.map(({ field, from, to }) => (
+                                <li key={field}>
+                                    <code>{field}</code>: <del>{formatValue(from)}</del> → <ins className="no-underline">{formatValue(to)}</ins>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p>{t('shapes.history.noChanges')}</p>
+                    )}
+                </div>
+            )}
+            {error && <p className="p-4 text-center">{error}</p>}
+        </div>
+    );
+}
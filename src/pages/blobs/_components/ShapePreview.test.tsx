@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act } from 'react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import ShapePreview from './ShapePreview.tsx';
+import { generateBlob } from '../../../utils';
+
+// React only warns in the console about markup that differs between the server and the browser
+const consoleError = vi.spyOn(console, 'error');
+
+afterEach(() => {
+    consoleError.mockClear();
+    document.body.innerHTML = '';
+});
+
+describe('ShapePreview', () => {
+    it('renders the same markup for the same seed', () => {
+        expect(renderToString(<ShapePreview {...generateBlob({ seed: 42 })} />)).toBe(renderToString(<ShapePreview {...generateBlob({ seed: 42 })} />));
+    });
+
+    it('hydrates the server markup without a mismatch', async () => {
+        // The server and the browser each generate the shape from the seed on their own
+        const container = document.createElement('div');
+        container.innerHTML = renderToString(<ShapePreview {...generateBlob({ seed: 42 })} />);
+        document.body.append(container);
+        const serverMarkup = container.innerHTML;
+
+        const onRecoverableError = vi.fn();
+        await act(async () => {
+            hydrateRoot(container, <ShapePreview {...generateBlob({ seed: 42 })} />, { onRecoverableError });
+        });
+
+        expect(onRecoverableError).not.toHaveBeenCalled();
+        expect(consoleError).not.toHaveBeenCalled();
+        expect(container.innerHTML).toBe(serverMarkup);
+    });
+});
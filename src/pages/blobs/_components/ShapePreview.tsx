@@ -1,19 +1,21 @@
-import { randomInt } from '../../../utils.ts';
+import { gradientId, gradientStopOffset, gradientVector } from '../../../utils/shapeSvg.ts';
 import type { BlobProps } from '../../../types.ts';
 
 export default function ShapePreview(props: BlobProps) {
     const { svgPath, parameters } = props;
-    const gradientId = `gradient-${randomInt(10_000_000, 100_000_000)}`;
+    const id = gradientId(parameters);
+    const { colors } = parameters;
 
     return (
         <svg viewBox={`0 0 ${parameters.size} ${parameters.size}`} xmlns="http://www.w3.org/2000/svg" width="100%">
             <defs>
-                <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
-                    <stop offset="0%" style={{ stopColor: parameters.colors[0] }} />
-                    <stop offset="100%" style={{ stopColor: parameters.colors[1] }} />
+                <linearGradient id={id} {...gradientVector(parameters.angle)}>
+                    {colors.map((color, index) => (
+                        <stop key={index} offset={gradientStopOffset(index, colors.length)} style={{ stopColor: color }} />
+                    ))}
                 </linearGradient>
             </defs>
-            <path d={svgPath} fill={`url(#${gradientId})`}></path>
+            <path d={svgPath} fill={`url(#${id})`}></path>
         </svg>
     );
 }
@@ -1,71 +1,181 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import ShapeHistory from './ShapeHistory.tsx';
 import ShapePreview from './ShapePreview.tsx';
-import { generateBlob } from '../../../utils';
-import type { BlobProps } from '../../../types.ts';
+import { generateBlob, uploadDisabled } from '../../../utils';
+import { describeIssues } from '../../../utils/validation';
+import { apiClient, type ApiRequestError } from '../../../utils/apiClient';
+import { translator, type Locale } from '../../../utils/i18n';
+import type { BlobProps, ShapeListItem, StoredShape } from '../../../types.ts';
 
 interface Props {
+    locale?: Locale;
     lastMutationTime: number;
+    onEdit?: (item: ShapeListItem) => void;
+    // Called with null once the selected shape is gone
+    onSelect?: (key: string | null) => void;
+}
+
+const pageSize = 24;
+
+function ShapeThumbnail(props: { item: ShapeListItem; selected: boolean; onSelect: () => void }) {
+    const { item, selected, onSelect } = props;
+    const blob = useMemo(() => generateBlob(item.parameters), [item.metadata?.contentHash, item.key]);
+
+    return (
+        <button
+            className={
+                'flex flex-col items-center gap-1 p-2 rounded-sm text-xs text-gray-900 cursor-pointer transition hover:bg-complementary/20' +
+                (selected ? ' bg-complementary/20 pointer-events-none' : '')
+            }
+            onClick={onSelect}
+        >
+            <div className="w-full aspect-square text-primary">
+                <ShapePreview {...blob} />
+            </div>
+            <span className="w-full truncate">{item.key}</span>
+        </button>
+    );
 }
 
 export default function StoredShapes(props: Props) {
-    const { lastMutationTime } = props;
-    const [keys, setKeys] = useState<string[]>([]);
+    const { locale, lastMutationTime, onEdit, onSelect } = props;
+    const t = translator(locale);
+    const api = apiClient(locale);
+    const [items, setItems] = useState<ShapeListItem[]>([]);
+    const [nextCursor, setNextCursor] = useState<string>(null);
+    const [loadingPage, setLoadingPage] = useState<boolean>(false);
+    const [search, setSearch] = useState<string>('');
+    const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+    const [sort, setSort] = useState<string>('created');
     const [selectedKey, setSelectedKey] = useState<string>(null);
     const [previewData, setPreviewData] = useState<BlobProps>(null);
+    const [error, setError] = useState<string>(null);
+    const [embedCopied, setEmbedCopied] = useState<boolean>(false);
+    const [showHistory, setShowHistory] = useState<boolean>(false);
+    const listRequest = useRef(0);
+    const sentinelRef = useRef<HTMLDivElement>(null);
 
-    const getBlobKeyList = async () => {
-        console.log('Fetching keys...');
-        const response = await fetch('/api/blobs', {
-            method: 'GET',
-            headers: { 'Content-Type': 'application/json' }
-        });
-        const data = await response.json();
-        if (data.keys) {
-            setKeys(data.keys);
+    // Loads the first page when cursor is null, otherwise appends the page after it
+    const getShapePage = async (cursor: string = null) => {
+        const request = ++listRequest.current;
+        setLoadingPage(true);
+        try {
+            const page = await api.listShapes({ sort, q: debouncedSearch, limit: pageSize, cursor });
+            // A newer search or refresh was started in the meantime
+            if (request !== listRequest.current) return;
+            setItems((previous) => (cursor ? [...previous, ...page.items] : page.items));
+            setNextCursor(page.nextCursor);
+        } catch (e) {
+            if (request !== listRequest.current) return;
+            setError((e as Error).message);
         }
+        setLoadingPage(false);
     };
 
-    const getBlobByKey = async (key: string) => {
-        setSelectedKey(key);
-        const params = new URLSearchParams({ key });
-        const response = await fetch(`/api/blob/?${params}`, {
-            method: 'GET'
-        });
-        const data = await response.json();
-        if (data.blob) {
-            setPreviewData(generateBlob(data.blob));
+    const selectShape = (item: ShapeListItem) => {
+        setSelectedKey(item.key);
+        onSelect?.(item.key);
+        setPreviewData(generateBlob(item.parameters));
+        setEmbedCopied(false);
+    };
+
+    const shapeRestored = (shape: StoredShape) => {
+        setPreviewData(generateBlob(shape.parameters));
+        getShapePage();
+    };
+
+    const exportUrl = (extension: 'svg' | 'png', download = false) =>
+        `/api/shapes/${encodeURIComponent(selectedKey)}.${extension}${download ? '?download=true' : ''}`;
+
+    const copyEmbedCode = async () => {
+        const embed = `<img src="${new URL(exportUrl('svg'), location.origin)}" alt="${selectedKey}" width="${previewData.parameters.size}">`;
+        try {
+            await navigator.clipboard.writeText(embed);
+            setEmbedCopied(true);
+        } catch {
+            setError(t('shapes.copyFailed'));
         }
     };
 
+    const deleteSelectedShape = async () => {
+        if (!confirm(t('shapes.confirmDelete', { key: selectedKey }))) return;
+        try {
+            await api.deleteShape(selectedKey);
+        } catch (e) {
+            setError((e as Error).message);
+            return;
+        }
+        setError(null);
+        setSelectedKey(null);
+        onSelect?.(null);
+        setPreviewData(null);
+        getShapePage();
+    };
+
+    const renameSelectedShape = async () => {
+        const name = prompt(t('shapes.promptRename'), selectedKey)?.trim();
+        if (!name || name === selectedKey) return;
+        try {
+            await api.updateShape(selectedKey, { name });
+        } catch (e) {
+            const { issues, message } = e as ApiRequestError;
+            setError(issues ? describeIssues(issues) : message);
+            return;
+        }
+        setError(null);
+        setSelectedKey(name);
+        onSelect?.(name);
+        getShapePage();
+    };
+
     useEffect(() => {
-        getBlobKeyList();
-    }, [lastMutationTime]);
+        const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+        return () => clearTimeout(timeout);
+    }, [search]);
+
+    useEffect(() => {
+        getShapePage();
+    }, [lastMutationTime, debouncedSearch, sort]);
+
+    // Infinite scroll: fetch the next page once the end of the list scrolls into view
+    useEffect(() => {
+        if (!nextCursor || loadingPage || !sentinelRef.current) return;
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) getShapePage(nextCursor);
+        });
+        observer.observe(sentinelRef.current);
+        return () => observer.disconnect();
+    }, [nextCursor, loadingPage]);
 
     return (
         <>
-            <h2 className="mb-4 text-xl text-center sm:text-xl">Objects in Blob Store</h2>
+            <h2 className="mb-4 text-xl text-center sm:text-xl">{t('shapes.storedTitle')}</h2>
             <div className="w-full bg-white rounded-lg">
-                <div className="p-4 text-center min-h-14">
-                    {keys?.length ? (
-                        <div className="space-y-1">
-                            {keys.map((keyName) => (
-                                <button
-                                    key={keyName}
-                                    className={
-                                        'inline-flex items-center justify-center w-full px-4 py-1.5 rounded-sm text-sm text-gray-900 cursor-pointer text-center transition hover:bg-complementary/20' +
-                                        (selectedKey === keyName ? ' bg-complementary/20 pointer-events-none' : '')
-                                    }
-                                    onClick={() => {
-                                        getBlobByKey(keyName);
-                                    }}
-                                >
-                                    {keyName}
-                                </button>
+                <div className="flex gap-2 p-4 border-b border-gray-200 min-h-14">
+                    <input
+                        type="search"
+                        placeholder={t('shapes.search')}
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="flex-1 min-w-0 px-3 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-sm"
+                    />
+                    <select value={sort} onChange={(e) => setSort(e.target.value)} className="px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded-sm">
+                        <option value="created">{t('shapes.sortNewest')}</option>
+                        <option value="name">{t('shapes.sortName')}</option>
+                    </select>
+                </div>
+                <div className="p-4 overflow-y-auto text-center max-h-96">
+                    {items.length ? (
+                        <div className="grid grid-cols-3 gap-2">
+                            {items.map((item) => (
+                                <ShapeThumbnail key={item.key} item={item} selected={selectedKey === item.key} onSelect={() => selectShape(item)} />
                             ))}
                         </div>
                     ) : (
-                        <span className="text-gray-900">Please upload some shapes!</span>
+                        !loadingPage && <span className="text-gray-900">{debouncedSearch ? t('shapes.noMatches') : t('shapes.empty')}</span>
                     )}
+                    <div ref={sentinelRef} />
+                    {loadingPage && <span className="text-sm text-gray-500">{t('shapes.loading')}</span>}
                 </div>
                 {previewData && (
                     <div className="p-4 border-t border-gray-200 aspect-square text-primary">
@@ -73,6 +183,35 @@ export default function StoredShapes(props: Props) {
                     </div>
                 )}
             </div>
+            {previewData && (
+                <div className="flex flex-wrap justify-center gap-4 mt-6">
+                    <button className="btn" onClick={() => onEdit?.(items.find((item) => item.key === selectedKey))} disabled={uploadDisabled}>
+                        {t('shapes.edit')}
+                    </button>
+                    <button className="btn" onClick={renameSelectedShape} disabled={uploadDisabled}>
+                        {t('shapes.rename')}
+                    </button>
+                    <button className="btn" onClick={deleteSelectedShape} disabled={uploadDisabled}>
+                        {t('shapes.delete')}
+                    </button>
+                    <a className="btn" href={exportUrl('svg', true)} download>
+                        {t('shapes.downloadSvg')}
+                    </a>
+                    <a className="btn" href={exportUrl('png', true)} download>
+                        {t('shapes.downloadPng')}
+                    </a>
+                    <button className="btn" onClick={copyEmbedCode}>
+                        {embedCopied ? t('shapes.copied') : t('shapes.copyEmbed')}
+                    </button>
+                    <button className="btn" onClick={() => setShowHistory(!showHistory)}>
+                        {showHistory ? t('shapes.history.hide') : t('shapes.history.show')}
+                    </button>
+                </div>
+            )}
+            {previewData && showHistory && (
+                <ShapeHistory locale={locale} shapeKey={selectedKey} lastMutationTime={lastMutationTime} onRestored={shapeRestored} />
+            )}
+            {error && <p className="mt-4 text-center text-sm">{error}</p>}
         </>
     );
 }
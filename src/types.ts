@@ -4,10 +4,275 @@ export type BlobParameterProps = {
     edges: number;
     growth: number;
     name: string;
+    // Two or more gradient stops, spread evenly along the gradient
     colors: string[];
+    // CSS-style gradient angle in degrees (0 points up); defaults to 180, top to bottom
+    angle?: number;
 };
 
 export type BlobProps = {
     svgPath: string;
     parameters: BlobParameterProps;
 };
+
+export type DocumentFormat = 'md' | 'txt' | 'html' | 'docx' | 'pdf';
+
+export type ConversionJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export type ConversionJob = {
+    id: string;
+    fileName: string;
+    fileSize: number;
+    sourceFormat: DocumentFormat;
+    targetFormat: DocumentFormat;
+    status: ConversionJobStatus;
+    progress: number;
+    createdAt: number;
+    updatedAt: number;
+    resultFileName?: string;
+    resultSize?: number;
+    error?: string;
+};
+
+// Where a chunked upload goes once complete: a file in the file manager, or a new conversion job
+export type UploadTarget = { kind: 'files'; path: string } | { kind: 'convert'; targetFormat: DocumentFormat };
+
+export type UploadSession = {
+    id: string;
+    fileName: string;
+    size: number;
+    type: string;
+    // Hex SHA-256 of the whole file, checked once the parts are reassembled
+    sha256: string;
+    // Every part but the last is exactly chunkSize bytes
+    chunkSize: number;
+    chunkCount: number;
+    target: UploadTarget;
+    createdAt: number;
+};
+
+export type UploadStatus = UploadSession & {
+    uploadedParts: number[];
+};
+
+export type VirtualFile = {
+    path: string;
+    name: string;
+    size: number;
+    type: string;
+    updatedAt: number;
+};
+
+export type DirectoryListing = {
+    path: string;
+    directories: string[];
+    files: VirtualFile[];
+};
+
+export type ImageFormat = 'jpeg' | 'webp' | 'avif' | 'png';
+
+export type CompressedImage = {
+    originalName: string;
+    name: string;
+    format: ImageFormat;
+    originalSize: number;
+    compressedSize: number;
+    width: number;
+    height: number;
+    // The optimized image as a data: URL
+    dataUrl: string;
+};
+
+// A file of the archive, or one that couldn't be added to it, along with the reason
+export type ArchiveManifestEntry =
+    | {
+          originalName: string;
+          name: string;
+          originalSize: number;
+          size: number;
+          savedBytes: number;
+      }
+    | { originalName: string; originalSize: number; error: string };
+
+export type ShapeMetadata = {
+    createdAt: number;
+    updatedAt: number;
+    author: string;
+    contentHash: string;
+};
+
+export type StoredShape = {
+    parameters: BlobParameterProps;
+    metadata: ShapeMetadata;
+};
+
+export type ShapeListItem = StoredShape & {
+    key: string;
+};
+
+export type ShapeChange = 'created' | 'updated' | 'renamed' | 'restored';
+
+// A saved state of a shape; every write to a shape adds one
+export type ShapeVersion = {
+    version: number;
+    parameters: BlobParameterProps;
+    author: string;
+    savedAt: number;
+    change: ShapeChange;
+    // The key the shape had before a rename
+    renamedFrom?: string;
+    // The version whose parameters were restored
+    restoredFrom?: number;
+};
+
+export type ParameterChange = {
+    field: keyof BlobParameterProps;
+    from: BlobParameterProps[keyof BlobParameterProps] | null;
+    to: BlobParameterProps[keyof BlobParameterProps] | null;
+};
+
+// A named group of shapes; a shape can be in any number of collections
+export type ShapeCollection = {
+    id: string;
+    name: string;
+    description: string;
+    shapeKeys: string[];
+    createdAt: number;
+    updatedAt: number;
+};
+
+// A read-only public link to a collection, which stops working once expired or revoked
+export type ShareLink = {
+    id: string;
+    collectionId: string;
+    createdAt: number;
+    expiresAt: number;
+    revokedAt: number | null;
+};
+
+export type PurgeRecord = {
+    id: string;
+    purgedAt: number;
+    tags: string[];
+    // Who asked for the purge: the X-Author header if sent, and the client's IP address
+    author: string;
+    ip: string;
+    auth: 'secret' | 'signature';
+    // Set when the CDN refused the purge, so the tags may still be cached
+    error?: string;
+};
+
+export type KnownCacheTag = {
+    tag: string;
+    // The routes whose responses carry the tag
+    routes: string[];
+};
+
+export type VariantResult = {
+    name: string;
+    weight: number;
+    // The page that the variant's visitors are served
+    path: string;
+    exposures: number;
+};
+
+export type ExperimentResult = {
+    id: string;
+    description: string;
+    path: string;
+    variants: VariantResult[];
+};
+
+export type ValidationIssue = {
+    field: string;
+    message: string;
+};
+
+// The JSON bodies of the API routes, shared by the routes (through jsonResponse) and the browser (through
+// utils/apiClient.ts), so that changing a contract fails type-checking on both sides.
+
+// Every failed request answers with this envelope; invalid shapes also list the offending fields
+export type ApiErrorBody = {
+    error: string;
+    issues?: ValidationIssue[];
+};
+
+export type ShapeListPage = {
+    items: ShapeListItem[];
+    // Pass as ?cursor= for the next page; null on the last page
+    nextCursor: string | null;
+};
+
+export type ShapeStoredResponse = { message: string };
+
+// The legacy /api/blobs listing and /api/blob?key= lookup
+export type ShapeKeysResponse = { keys: string[] };
+
+export type ShapeParametersResponse = { blob: BlobParameterProps | null };
+
+export type DeletedResponse = { deleted: string };
+
+export type ShapeVersionListResponse = { versions: ShapeVersion[] };
+
+export type ShapeVersionDiffResponse = { from: number; to: number; changes: ParameterChange[] };
+
+export type ShapeConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+// The outcome for one line of an import; "key" is where the shape was (or, in a dry run, would be) stored
+export type ShapeImportResult = {
+    line: number;
+    status: 'created' | 'overwritten' | 'renamed' | 'skipped' | 'failed';
+    key?: string;
+    error?: string;
+    issues?: ValidationIssue[];
+};
+
+export type ShapeImportReport = {
+    dryRun: boolean;
+    onConflict: ShapeConflictStrategy;
+    counts: Record<ShapeImportResult['status'], number>;
+    results: ShapeImportResult[];
+    // Set when the import ran out of time: the same body sent again with ?fromLine=<line> imports the rest
+    resumeFromLine: number | null;
+};
+
+export type CollectionListResponse = { collections: ShapeCollection[] };
+
+export type CollectionResponse = { collection: ShapeCollection };
+
+export type ShareLinkListResponse = { shares: ShareLink[] };
+
+export type ShareLinkResponse = { share: ShareLink };
+
+// The token and URL are only ever sent once, when the link is created
+export type ShareLinkCreatedResponse = ShareLinkResponse & { token: string; url: string };
+
+export type ConversionJobResponse = { job: ConversionJob };
+
+export type FilePathResponse = { path: string };
+
+export type FilesUploadResponse = { paths: string[] };
+
+export type CompressImagesResponse = {
+    images: CompressedImage[];
+    errors: { name: string; error: string }[];
+    totalOriginalSize: number;
+    totalCompressedSize: number;
+};
+
+export type UploadSessionResponse = { upload: UploadSession };
+
+export type UploadStatusResponse = { upload: UploadStatus };
+
+export type UploadPartResponse = { part: { index: number; sha256: string } };
+
+export type UploadCompleteResponse = FilePathResponse | ConversionJobResponse;
+
+export type CacheTagsResponse = { tags: KnownCacheTag[] };
+
+export type PurgeResponse = {
+    invalidated: string[];
+    purge: PurgeRecord;
+};
+
+export type PurgeLogResponse = { purges: PurgeRecord[] };
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { cacheHeaders, generateBlob, seededRandom, type CacheVary } from './utils';
+import { validateShapeParameters } from './utils/validation';
+
+const browser = 'public, max-age=0, must-revalidate';
+
+describe('cacheHeaders', () => {
+    it('emits the default preset when called without arguments', () => {
+        expect(cacheHeaders()).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, max-age=31536000, must-revalidate'
+        });
+    });
+
+    it('emits the durable preset', () => {
+        expect(cacheHeaders('durable')).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, durable, max-age=31536000, must-revalidate'
+        });
+    });
+
+    it('emits the fresh preset with its stale directives and without must-revalidate', () => {
+        expect(cacheHeaders('fresh')).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, durable, max-age=60, stale-while-revalidate=604800, stale-if-error=86400'
+        });
+    });
+
+    it('emits the shapeListing preset', () => {
+        expect(cacheHeaders('shapeListing')).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, durable, max-age=31536000, stale-if-error=86400',
+            'Netlify-Vary': 'query=sort|prefix|q|limit|cursor'
+        });
+    });
+
+    it('emits the shapeImage preset', () => {
+        expect(cacheHeaders('shapeImage')).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, durable, max-age=31536000, stale-if-error=604800',
+            'Netlify-Vary': 'query=size|download'
+        });
+    });
+
+    it('takes a number of days, as the original signature did', () => {
+        expect(cacheHeaders(7)).toEqual({
+            'Cache-Control': browser,
+            'Netlify-CDN-Cache-Control': 'public, max-age=604800, must-revalidate'
+        });
+    });
+
+    it('adds cache tags, and leaves the header out without any', () => {
+        expect(cacheHeaders('default', ['shapes', 'shape:a'])['Cache-Tag']).toBe('shapes,shape:a');
+        expect(cacheHeaders('default', [])).not.toHaveProperty('Cache-Tag');
+    });
+
+    describe('vary', () => {
+        const varying = (vary: CacheVary) => cacheHeaders({ maxAgeSeconds: 60, vary });
+
+        it('varies on all query parameters', () => {
+            const headers = varying({ query: true });
+            expect(headers['Netlify-Vary']).toBe('query');
+            expect(headers).not.toHaveProperty('Vary');
+        });
+
+        it('varies on the listed query parameters', () => {
+            expect(varying({ query: ['a', 'b'] })['Netlify-Vary']).toBe('query=a|b');
+        });
+
+        it('varies on headers for browsers as well as Netlify', () => {
+            const headers = varying({ header: ['Accept-Language', 'X-Theme'] });
+            expect(headers['Vary']).toBe('Accept-Language, X-Theme');
+            expect(headers['Netlify-Vary']).toBe('header=Accept-Language|X-Theme');
+        });
+
+        it('varies on cookies', () => {
+            const headers = varying({ cookie: ['locale'] });
+            expect(headers['Netlify-Vary']).toBe('cookie=locale');
+            expect(headers).not.toHaveProperty('Vary');
+        });
+
+        it('varies on countries', () => {
+            expect(varying({ country: ['CN', 'US'] })['Netlify-Vary']).toBe('country=CN|US');
+        });
+
+        it('varies on languages', () => {
+            expect(varying({ language: ['zh', 'en'] })['Netlify-Vary']).toBe('language=zh|en');
+        });
+
+        it('combines every kind in a fixed order', () => {
+            const headers = varying({ language: ['en'], country: ['DE'], cookie: ['c'], header: ['H'], query: ['q'] });
+            expect(headers['Netlify-Vary']).toBe('query=q,header=H,cookie=c,country=DE,language=en');
+            expect(headers['Vary']).toBe('H');
+        });
+
+        it('leaves out empty lists', () => {
+            expect(varying({ header: [], cookie: [] })).toEqual({
+                'Cache-Control': browser,
+                'Netlify-CDN-Cache-Control': 'public, max-age=60, must-revalidate'
+            });
+        });
+    });
+});
+
+describe('seededRandom', () => {
+    it('repeats its sequence for the same seed', () => {
+        const first = seededRandom(42);
+        const second = seededRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it('gives another sequence for another seed', () => {
+        expect(seededRandom(42)()).not.toBe(seededRandom(43)());
+    });
+});
+
+describe('generateBlob', () => {
+    it('derives every parameter from the seed', () => {
+        const blob = generateBlob({ seed: 42 });
+        expect(blob).toEqual(generateBlob({ seed: 42 }));
+        expect(blob.parameters).toEqual({
+            seed: 42,
+            size: 512,
+            edges: expect.any(Number),
+            growth: expect.any(Number),
+            name: expect.stringMatching(/^[a-z]+-[a-z]+-\d{3}$/),
+            colors: expect.any(Array)
+        });
+        expect(validateShapeParameters(blob.parameters).issues).toBeUndefined();
+    });
+
+    it('gives other shapes for other seeds', () => {
+        const names = new Set([1, 2, 3, 4, 5].map((seed) => generateBlob({ seed }).parameters.name));
+        expect(names.size).toBe(5);
+    });
+
+    it('keeps the other parameters when one is given', () => {
+        const { parameters } = generateBlob({ seed: 42 });
+        const changed = generateBlob({ seed: 42, edges: parameters.edges === 3 ? 4 : 3 });
+        expect(changed.parameters).toEqual({ ...parameters, edges: changed.parameters.edges });
+    });
+
+    it('draws stored shapes the same way every time', () => {
+        const stored = { seed: 7, size: 400, edges: 6, growth: 6, name: 'stored', colors: ['#000', '#fff'] };
+        expect(generateBlob(stored)).toEqual({ parameters: stored, svgPath: generateBlob(stored).svgPath });
+    });
+
+    it('draws seed 0 deterministically', () => {
+        expect(generateBlob({ seed: 0 }).svgPath).toBe(generateBlob({ seed: 0 }).svgPath);
+    });
+
+    it('keeps the seed but draws the rest from another source of randomness', () => {
+        const blob = generateBlob({ seed: 42 }, seededRandom(99));
+        expect(blob.parameters.seed).toBe(42);
+        expect(blob.svgPath).toBe(generateBlob(blob.parameters).svgPath);
+        expect(blob.parameters.name).toBe(generateBlob({ seed: 42 }, seededRandom(99)).parameters.name);
+    });
+
+    it('picks a seed when none is given', () => {
+        expect(generateBlob().parameters.seed).toBeGreaterThan(0);
+    });
+});
@@ -1,57 +1,217 @@
 import blobshape from 'blobshape';
 import { uniqueNamesGenerator, adjectives, animals } from 'unique-names-generator';
+import type { NetlifyLocals } from '@astrojs/netlify';
+import type { ApiErrorBody, BlobParameterProps, BlobProps } from './types';
 
 // Note: this only works on the server side
 export function getNetlifyContext() {
     return process.env.CONTEXT;
 }
 
-export function randomInt(min: number, max: number) {
-    return Math.floor(Math.random() * (max - min + 1) + min);
+// Keeps the function alive until the task settles, even after the response has been sent.
+// Outside of Netlify (e.g. plain `astro dev`) the task simply runs on in the Node process.
+export function runInBackground(locals: App.Locals, task: Promise<unknown>) {
+    const context = (locals as Partial<NetlifyLocals>).netlify?.context as NetlifyLocals['netlify']['context'] & { waitUntil?: (promise: Promise<unknown>) => void };
+    context?.waitUntil?.(task);
 }
 
-export function uniqueName() {
+export function randomInt(min: number, max: number, random: () => number = Math.random) {
+    return Math.floor(random() * (max - min + 1) + min);
+}
+
+// Pseudo-random numbers in [0, 1) that only depend on the seed (mulberry32), so that the same seed yields the same
+// values on the server and in every browser
+export function seededRandom(seed: number) {
+    let state = (seed ^ Math.floor(seed / 2 ** 32)) >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = Math.imul(state ^ (state >>> 15), state | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 2 ** 32;
+    };
+}
+
+export function randomSeed() {
+    return randomInt(1, 999_999);
+}
+
+export function uniqueName(random: () => number = Math.random) {
     const config = {
         dictionaries: [adjectives, animals],
         separator: '-',
-        length: 2
+        length: 2,
+        seed: randomInt(0, 2 ** 31 - 1, random)
     };
-    return uniqueNamesGenerator(config) + '-' + randomInt(100, 999);
+    return uniqueNamesGenerator(config) + '-' + randomInt(100, 999, random);
 }
 
-export function generateBlob(parameters?: any) {
-    const gradientColors = [
-        ['#2E3192', '#1BFFFF'],
-        ['#93A5CF', '#E4EfE9'],
-        ['#BFF098', '#6FD6FF'],
-        ['#A1C4FD', '#C2E9FB'],
-        ['#11998E', '#38EF7D'],
-        ['#D8B5FF', '#1EAE98']
-    ];
+const gradientColors = [
+    ['#2E3192', '#1BFFFF'],
+    ['#93A5CF', '#E4EfE9'],
+    ['#BFF098', '#6FD6FF'],
+    ['#A1C4FD', '#C2E9FB'],
+    ['#11998E', '#38EF7D'],
+    ['#D8B5FF', '#1EAE98']
+];
 
-    parameters = {
-        seed: null,
+// Fills in the parameters that aren't given and draws the outline. The missing ones come from the seed (a random one
+// if there's none), so a seed alone reproduces the whole shape, name and colors included. Every value is drawn in the
+// same order whether or not it was given, so that setting one parameter doesn't change the others. Pass another source
+// of randomness to get new values for a fixed seed.
+export function generateBlob(parameters: Partial<BlobParameterProps> = {}, random?: () => number): BlobProps {
+    const seed = parameters.seed ?? randomSeed();
+    const draw = random ?? seededRandom(seed);
+    const defaults = {
         size: 512,
-        edges: randomInt(3, 20),
-        growth: randomInt(2, 9),
-        name: uniqueName(),
-        colors: gradientColors[randomInt(0, gradientColors.length - 1)],
-        ...parameters
+        edges: randomInt(3, 20, draw),
+        growth: randomInt(2, 9, draw),
+        name: uniqueName(draw),
+        colors: [...gradientColors[randomInt(0, gradientColors.length - 1, draw)]]
     };
-    const { path: svgPath, seedValue: seed } = blobshape(parameters);
-    return { parameters: { ...parameters, seed }, svgPath };
+    const resolved = { ...defaults, ...parameters, seed };
+    // blobshape takes 0 for "no seed" and picks a random outline, so seed 0 is drawn like seed 1. Its typings declare the
+    // seed as a string, but it does arithmetic with it and a string would give another outline.
+    const { path: svgPath } = blobshape({ size: resolved.size, growth: resolved.growth, edges: resolved.edges, seed: (seed || 1) as unknown as string });
+    return { parameters: resolved, svgPath };
+}
+
+// Cache keys on Netlify can vary on more than the URL path. Each entry narrows or widens what makes two requests
+// distinct cache entries (see: https://docs.netlify.com/platform/caching/#vary-by-query-parameter):
+// - query: the listed query parameters only (true for all of them, which is also Netlify's default)
+// - header, cookie: the values of the listed request headers or cookies
+// - country, language: the visitor's country code or preferred language, with each listed value cached separately and all others sharing one entry
+export interface CacheVary {
+    query?: true | string[];
+    header?: string[];
+    cookie?: string[];
+    country?: string[];
+    language?: string[];
 }
 
-export function cacheHeaders(maxAgeDays = 365, cacheTags?: string[]): Record<string, string> {
+export interface CachePolicy {
+    // How long Netlify CDN may serve the cached response before revalidating it. Browsers always revalidate.
+    maxAgeSeconds: number;
+    // How long a stale response may still be served while a fresh one is fetched in the background
+    staleWhileRevalidateSeconds?: number;
+    // How long a stale response may be served when the origin fails
+    staleIfErrorSeconds?: number;
+    // Shares the cached response across all CDN edge nodes instead of each one rendering it separately
+    durable?: boolean;
+    vary?: CacheVary;
+}
+
+const day = 86_400;
+
+// Named policies for routes to reference, rather than each route spelling out its own numbers
+export const cachePresets = {
+    // Cached for up to a year, until a new deploy or a purge of its tags
+    default: { maxAgeSeconds: 365 * day },
+    // As default, but also shared across edge nodes; for content that's expensive to render
+    durable: { maxAgeSeconds: 365 * day, durable: true },
+    // Revalidated after a minute, while stale copies keep being served meanwhile and if the origin is down
+    fresh: { maxAgeSeconds: 60, staleWhileRevalidateSeconds: 7 * day, staleIfErrorSeconds: day, durable: true },
+    // Listings of stored shapes, keyed only by the query parameters that affect them
+    shapeListing: {
+        maxAgeSeconds: 365 * day,
+        staleIfErrorSeconds: day,
+        durable: true,
+        vary: { query: ['sort', 'prefix', 'q', 'limit', 'cursor'] }
+    },
+    // Rendered shape images, meant for hotlinking
+    shapeImage: {
+        maxAgeSeconds: 365 * day,
+        staleIfErrorSeconds: 7 * day,
+        durable: true,
+        vary: { query: ['size', 'download'] }
+    }
+} satisfies Record<string, CachePolicy>;
+
+export type CachePresetName = keyof typeof cachePresets;
+
+function varyValue(values: true | string[]) {
+    return values === true ? '' : `=${values.join('|')}`;
+}
+
+// Accepts a preset name, a policy, or a number of days to cache for (the original signature).
+export function cacheHeaders(policy: CachePresetName | CachePolicy | number = 'default', cacheTags?: string[]): Record<string, string> {
+    const { maxAgeSeconds, staleWhileRevalidateSeconds, staleIfErrorSeconds, durable, vary }: CachePolicy =
+        typeof policy === 'number' ? { maxAgeSeconds: policy * day } : typeof policy === 'string' ? cachePresets[policy] : policy;
+
     // As far as the browser is concerned, it must revalidate on every request.
-    // However, Netlify CDN is told to keep the content cached for up to maxAgeDays (note: new deployment bust the cache by default).
+    // However, Netlify CDN is told to keep the content cached for up to maxAgeSeconds (note: new deployment bust the cache by default).
+    // The stale-* directives let it keep answering with an outdated copy, so must-revalidate is only set without them.
     // We're also setting cache tags to be able to later purge via API (see: https://www.netlify.com/blog/cache-tags-and-purge-api-on-netlify/)
+    const cdnDirectives = ['public', durable && 'durable', `max-age=${maxAgeSeconds}`];
+    if (staleWhileRevalidateSeconds) cdnDirectives.push(`stale-while-revalidate=${staleWhileRevalidateSeconds}`);
+    if (staleIfErrorSeconds) cdnDirectives.push(`stale-if-error=${staleIfErrorSeconds}`);
+    if (!staleWhileRevalidateSeconds && !staleIfErrorSeconds) cdnDirectives.push('must-revalidate');
+
     const headers = {
         'Cache-Control': 'public, max-age=0, must-revalidate', // Tell browsers to always revalidate
-        'Netlify-CDN-Cache-Control': `public, max-age=${maxAgeDays * 86_400}, must-revalidate` // Tells Netlify CDN the max allwed cache duration
+        'Netlify-CDN-Cache-Control': cdnDirectives.filter(Boolean).join(', ') // Tells Netlify CDN the max allowed cache duration
     };
     if (cacheTags?.length > 0) headers['Cache-Tag'] = cacheTags.join(',');
+
+    if (vary) {
+        // Browsers and other caches only understand varying on headers
+        if (vary.header?.length > 0) headers['Vary'] = vary.header.join(', ');
+        const netlifyVary = [
+            vary.query && `query${varyValue(vary.query)}`,
+            vary.header?.length > 0 && `header=${vary.header.join('|')}`,
+            vary.cookie?.length > 0 && `cookie=${vary.cookie.join('|')}`,
+            vary.country?.length > 0 && `country=${vary.country.join('|')}`,
+            vary.language?.length > 0 && `language=${vary.language.join('|')}`
+        ].filter(Boolean);
+        if (netlifyVary.length > 0) headers['Netlify-Vary'] = netlifyVary.join(',');
+    }
     return headers;
 }
 
-export const uploadDisabled = import.meta.env.PUBLIC_DISABLE_UPLOADS?.toLowerCase() === 'true';
+// Tags of the responses that show shapes: every listing is tagged "shapes", and anything showing one shape "shape:<key>".
+export const shapeListCacheTag = 'shapes';
+
+export function shapeCacheTag(key: string) {
+    return `shape:${key}`;
+}
+
+// The tags to purge after writing to the given shapes: all listings, plus each shape's own responses
+export function shapeWriteCacheTags(...keys: string[]) {
+    return [shapeListCacheTag, ...keys.map(shapeCacheTag)];
+}
+
+export function attachmentHeaders(fileName: string, contentType: string): Record<string, string> {
+    return {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    };
+}
+
+// Thrown by server-side helpers to fail a request with a specific status; API routes turn it into a JSON error response.
+export class ApiError extends Error {
+    status: number;
+    headers?: Record<string, string>;
+
+    constructor(status: number, message: string, headers?: Record<string, string>) {
+        super(message);
+        this.status = status;
+        this.headers = headers;
+    }
+}
+
+// Serializes the body of an API route, typed with the route's contract from types.ts
+export function jsonResponse<T>(body: T, init?: ResponseInit) {
+    return new Response(JSON.stringify(body), init);
+}
+
+export function errorResponse(status: number, body: ApiErrorBody, headers?: Record<string, string>) {
+    return jsonResponse(body, { status, headers });
+}
+
+// Anything other than an ApiError is unexpected and rethrown.
+export function apiErrorResponse(e: unknown) {
+    if (!(e instanceof ApiError)) throw e;
+    return errorResponse(e.status, { error: e.message }, e.headers);
+}
+
+// import.meta.env only exists under Vite, and not in the Netlify functions that load this module as well
+export const uploadDisabled = import.meta.env?.PUBLIC_DISABLE_UPLOADS?.toLowerCase() === 'true';
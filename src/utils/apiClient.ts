@@ -0,0 +1,157 @@
+import { translator, type Locale } from './i18n';
+import type {
+    ApiErrorBody,
+    BlobParameterProps,
+    CacheTagsResponse,
+    CollectionListResponse,
+    CollectionResponse,
+    CompressImagesResponse,
+    ConversionJobResponse,
+    DeletedResponse,
+    DirectoryListing,
+    FilePathResponse,
+    PurgeLogResponse,
+    PurgeResponse,
+    ShapeCollection,
+    ShapeListPage,
+    ShapeStoredResponse,
+    ShapeVersionDiffResponse,
+    ShapeVersionListResponse,
+    ShareLinkCreatedResponse,
+    ShareLinkListResponse,
+    ShareLinkResponse,
+    StoredShape,
+    UploadCompleteResponse,
+    UploadPartResponse,
+    UploadSession,
+    UploadSessionResponse,
+    UploadStatusResponse,
+    ValidationIssue
+} from '../types';
+
+// The browser's way to call the API routes. Responses are typed with the contracts in types.ts; failures of any kind
+// (no network, timeouts, error responses, unreadable bodies) are thrown as an ApiRequestError with a localized message.
+
+const defaultTimeoutMs = 20_000;
+// Uploading a part or reassembling a large file takes longer than the usual request
+const transferTimeoutMs = 120_000;
+
+export class ApiRequestError extends Error {
+    // 0 when no response arrived (offline, or the request timed out)
+    status: number;
+    issues?: ValidationIssue[];
+
+    constructor(status: number, message: string, issues?: ValidationIssue[]) {
+        super(message);
+        this.status = status;
+        this.issues = issues;
+    }
+}
+
+interface RequestOptions extends Omit<RequestInit, 'body' | 'signal'> {
+    body?: BodyInit;
+    // Sent as JSON, with the matching Content-Type
+    json?: unknown;
+    timeoutMs?: number;
+}
+
+export type UploadRequest = Pick<UploadSession, 'fileName' | 'size' | 'type' | 'sha256' | 'target'>;
+
+export type CollectionChanges = Partial<Pick<ShapeCollection, 'name' | 'description' | 'shapeKeys'>>;
+
+export type ShapeListQuery = { sort: string; q: string; limit: number; cursor?: string };
+
+export function apiClient(locale?: Locale) {
+    const t = translator(locale);
+
+    const send = async (endpoint: string, options: RequestOptions = {}) => {
+        const { json, timeoutMs = defaultTimeoutMs, headers, body, ...init } = options;
+        let response: Response;
+        try {
+            response = await fetch(endpoint, {
+                ...init,
+                headers: json === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+                body: json === undefined ? body : JSON.stringify(json),
+                signal: AbortSignal.timeout(timeoutMs)
+            });
+        } catch (e) {
+            const timedOut = (e as Error).name === 'TimeoutError';
+            throw new ApiRequestError(0, timedOut ? t('api.timeout', { seconds: timeoutMs / 1000 }) : t('api.network', { error: (e as Error).message }));
+        }
+        if (!response.ok) {
+            const data: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+            throw new ApiRequestError(response.status, data.error || t('api.status', { status: response.status }), data.issues);
+        }
+        return response;
+    };
+
+    const request = async <T>(endpoint: string, options?: RequestOptions): Promise<T> => {
+        const response = await send(endpoint, options);
+        try {
+            return await response.json();
+        } catch {
+            throw new ApiRequestError(response.status, t('api.invalidResponse'));
+        }
+    };
+
+    const shapeUrl = (key: string) => `/api/shapes/${encodeURIComponent(key)}`;
+    const collectionUrl = (id: string) => `/api/collections/${encodeURIComponent(id)}`;
+    const filesQuery = (path: string) => `/api/files?${new URLSearchParams({ path })}`;
+
+    return {
+        listShapes: ({ cursor, ...query }: ShapeListQuery) =>
+            request<ShapeListPage>(`/api/shapes?${new URLSearchParams({ ...query, limit: String(query.limit), ...(cursor && { cursor }) })}`),
+        storeShape: (parameters: BlobParameterProps) => request<ShapeStoredResponse>('/api/blobs', { method: 'POST', json: parameters }),
+        // Also renames the shape when the changes include a new name
+        updateShape: (key: string, changes: Partial<BlobParameterProps>) => request<StoredShape>(shapeUrl(key), { method: 'PATCH', json: changes }),
+        deleteShape: (key: string) => request<DeletedResponse>(shapeUrl(key), { method: 'DELETE' }),
+        listShapeVersions: (key: string) => request<ShapeVersionListResponse>(`${shapeUrl(key)}/versions`),
+        // Compares with the newest version unless "to" is given
+        diffShapeVersions: (key: string, from: number, to?: number) =>
+            request<ShapeVersionDiffResponse>(`${shapeUrl(key)}/versions/diff?${new URLSearchParams({ from: String(from), ...(to && { to: String(to) }) })}`),
+        restoreShapeVersion: (key: string, version: number) => request<StoredShape>(`${shapeUrl(key)}/versions/${version}/restore`, { method: 'POST' }),
+
+        listCollections: () => request<CollectionListResponse>('/api/collections'),
+        createCollection: (collection: CollectionChanges & { name: string }) =>
+            request<CollectionResponse>('/api/collections', { method: 'POST', json: collection }),
+        updateCollection: (id: string, changes: CollectionChanges) => request<CollectionResponse>(collectionUrl(id), { method: 'PATCH', json: changes }),
+        deleteCollection: (id: string) => request<DeletedResponse>(collectionUrl(id), { method: 'DELETE' }),
+        listShareLinks: (id: string) => request<ShareLinkListResponse>(`${collectionUrl(id)}/shares`),
+        createShareLink: (id: string, expiresInDays: number) =>
+            request<ShareLinkCreatedResponse>(`${collectionUrl(id)}/shares`, { method: 'POST', json: { expiresInDays } }),
+        revokeShareLink: (id: string, shareId: string) => request<ShareLinkResponse>(`${collectionUrl(id)}/shares/${shareId}`, { method: 'DELETE' }),
+
+        conversionJob: (id: string) => request<ConversionJobResponse>(`/api/convert/jobs/${id}`),
+
+        listDirectory: (path: string) => request<DirectoryListing>(filesQuery(path)),
+        createFolder: (path: string) => request<FilePathResponse>('/api/files/folders', { method: 'POST', json: { path } }),
+        renameEntry: (path: string, name: string) => request<FilePathResponse>('/api/files/rename', { method: 'POST', json: { path, name } }),
+        copyEntry: (path: string, destination: string) => request<FilePathResponse>('/api/files/copy', { method: 'POST', json: { path, destination } }),
+        moveEntry: (path: string, destination: string) => request<FilePathResponse>('/api/files/move', { method: 'POST', json: { path, destination } }),
+        deleteEntry: (path: string) => request<DeletedResponse>(filesQuery(path), { method: 'DELETE' }),
+
+        compressImages: (form: FormData) => request<CompressImagesResponse>('/api/images/compress', { method: 'POST', body: form, timeoutMs: transferTimeoutMs }),
+        // The same request with archive=true in the form, answered with a ZIP instead of JSON
+        compressImagesToArchive: async (form: FormData) =>
+            (await send('/api/images/compress', { method: 'POST', body: form, timeoutMs: transferTimeoutMs })).blob(),
+
+        createUpload: (upload: UploadRequest) => request<UploadSessionResponse>('/api/uploads', { method: 'POST', json: upload }),
+        uploadStatus: (id: string) => request<UploadStatusResponse>(`/api/uploads/${id}`),
+        uploadPart: (id: string, index: number, chunk: ArrayBuffer, sha256: string) =>
+            request<UploadPartResponse>(`/api/uploads/${id}/parts/${index}`, {
+                method: 'PUT',
+                headers: { 'X-Chunk-Sha256': sha256 },
+                body: chunk,
+                timeoutMs: transferTimeoutMs
+            }),
+        completeUpload: (id: string) => request<UploadCompleteResponse>(`/api/uploads/${id}/complete`, { method: 'POST', timeoutMs: transferTimeoutMs }),
+        deleteUpload: (id: string) => request<DeletedResponse>(`/api/uploads/${id}`, { method: 'DELETE' }),
+
+        cacheTags: () => request<CacheTagsResponse>('/api/cache-tags'),
+        // Both need the revalidation credentials in the headers
+        purgeLog: (headers: Record<string, string>) => request<PurgeLogResponse>('/api/revalidate', { headers }),
+        purge: (tags: string[], headers: Record<string, string>) => request<PurgeResponse>('/api/revalidate', { method: 'POST', json: { tags }, headers })
+    };
+}
+
+export type ApiClient = ReturnType<typeof apiClient>;
@@ -0,0 +1,96 @@
+import { Zip, ZipDeflate, ZipPassThrough, unzip } from 'fflate';
+import type { ArchiveManifestEntry } from '../types';
+
+// Shared by the API routes that stream batch results as a ZIP and by the browser, which expands uploaded ZIPs.
+
+export interface ArchiveEntry {
+    name: string;
+    data: Uint8Array;
+    // Already-compressed formats (images, PDF, DOCX) are stored as-is, as deflating them again gains nothing
+    compress?: boolean;
+}
+
+const entryTypes: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    gif: 'image/gif',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    html: 'text/html',
+    htm: 'text/html'
+};
+
+// Archives can't hold two entries with the same name, so repeated names get a " (n)" suffix
+export function uniqueEntryName(name: string, taken: Set<string>) {
+    let unique = name;
+    for (let i = 1; taken.has(unique); i++) {
+        unique = name.replace(/(\.[^.]+)?$/, ` (${i})$1`);
+    }
+    taken.add(unique);
+    return unique;
+}
+
+// Entries are produced one at a time as the consumer reads, so large batches start downloading right away, and a slow
+// download holds back the work rather than having every entry buffered ahead of it.
+export function createZipStream(entries: Iterable<ArchiveEntry> | AsyncIterable<ArchiveEntry>): ReadableStream<Uint8Array> {
+    const iterator = (async function* (): AsyncGenerator<ArchiveEntry, undefined> {
+        yield* entries;
+    })();
+    let zip: Zip;
+    return new ReadableStream({
+        start(controller) {
+            zip = new Zip((error, chunk, final) => {
+                if (error) return controller.error(error);
+                controller.enqueue(chunk);
+                if (final) controller.close();
+            });
+        },
+        async pull(controller) {
+            try {
+                const { done, value: entry } = await iterator.next();
+                if (done) return zip.end();
+                const file = entry.compress ? new ZipDeflate(entry.name, { level: 6 }) : new ZipPassThrough(entry.name);
+                zip.add(file);
+                file.push(entry.data, true);
+            } catch (e) {
+                zip.terminate();
+                controller.error(e);
+            }
+        },
+        async cancel() {
+            zip.terminate();
+            await iterator.return(undefined);
+        }
+    });
+}
+
+export function manifestEntry(files: ArchiveManifestEntry[]): ArchiveEntry {
+    const manifest = { createdAt: new Date().toISOString(), files };
+    return { name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)), compress: true };
+}
+
+// Expands a ZIP into plain files, skipping folders and macOS resource forks. Only the file name of each entry is kept.
+export function expandZip(archive: Blob): Promise<File[]> {
+    return archive.arrayBuffer().then(
+        (buffer) =>
+            new Promise((resolve, reject) => {
+                unzip(new Uint8Array(buffer), { filter: ({ name }) => !name.endsWith('/') && !name.startsWith('__MACOSX/') }, (error, entries) => {
+                    if (error) return reject(error);
+                    resolve(
+                        Object.entries(entries).map(([path, data]) => {
+                            const name = path.split('/').pop();
+                            const type = entryTypes[name.split('.').pop().toLowerCase()] ?? '';
+                            return new File([data], name, { type });
+                        })
+                    );
+                });
+            })
+    );
+}
@@ -0,0 +1,46 @@
+import { shapeCacheTag, shapeListCacheTag } from '../utils';
+import { shapeStore } from './shapes';
+import type { KnownCacheTag } from '../types';
+
+// Every route that sets a Cache-Tag header takes its tags from here, so the revalidation dashboard can tell
+// which routes a purge affects. Route parameters in brackets are filled in by cacheTagsFor().
+export const routeCacheTags = {
+    '/revalidation': ['/revalidation', 'cats-related', 'all-pets-related'],
+    '/api/blobs': [shapeListCacheTag],
+    '/api/shapes': [shapeListCacheTag],
+    '/api/blob?key=[key]': [shapeCacheTag('[key]')],
+    '/api/shapes/[key]': [shapeCacheTag('[key]')],
+    '/api/shapes/[key].svg': [shapeCacheTag('[key]')],
+    '/api/shapes/[key].png': [shapeCacheTag('[key]')]
+} satisfies Record<string, string[]>;
+
+export type TaggedRoute = keyof typeof routeCacheTags;
+
+export function cacheTagsFor(route: TaggedRoute, params: Record<string, string> = {}) {
+    return routeCacheTags[route].map((tag) => tag.replace(/\[(\w+)\]/g, (_, name) => params[name]));
+}
+
+// Enough for the dashboard to stay usable; shapes past this are left out of the per-shape tags
+const maxShapeKeys = 200;
+
+// Lists the tags currently in use, expanding [key] templates with the keys of the stored shapes
+export async function knownCacheTags(): Promise<KnownCacheTag[]> {
+    const shapeKeys: string[] = [];
+    for await (const page of shapeStore().list({ paginate: true })) {
+        shapeKeys.push(...page.blobs.map(({ key }) => key));
+        if (shapeKeys.length >= maxShapeKeys) break;
+    }
+
+    const tags = new Map<string, string[]>();
+    for (const [route, templates] of Object.entries(routeCacheTags)) {
+        const keys = route.includes('[key]') ? shapeKeys.slice(0, maxShapeKeys) : [undefined];
+        for (const key of keys) {
+            const path = key === undefined ? route : route.replace('[key]', key);
+            for (const tag of templates) {
+                const expanded = key === undefined ? tag : tag.replace('[key]', key);
+                tags.set(expanded, [...(tags.get(expanded) ?? []), path]);
+            }
+        }
+    }
+    return [...tags].map(([tag, routes]) => ({ tag, routes }));
+}
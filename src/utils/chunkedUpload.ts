@@ -0,0 +1,113 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { ApiRequestError, type ApiClient } from './apiClient';
+import type { UploadCompleteResponse, UploadSession, UploadStatus, UploadTarget } from '../types';
+
+// Browser side of the chunked upload API (src/pages/api/uploads). Uploads in progress are remembered in localStorage,
+// so that after a reload the same file can be picked again and only the parts the server is missing are sent.
+
+export type PendingUpload = Pick<UploadSession, 'id' | 'fileName' | 'size' | 'sha256' | 'target'>;
+
+const pendingUploadsKey = 'tools:pending-uploads';
+const maxPartAttempts = 3;
+// Files are hashed this much at a time, so that they're never read into memory whole
+const hashSliceSize = 4 * 1024 * 1024;
+
+export function pendingUploads(): PendingUpload[] {
+    try {
+        return JSON.parse(localStorage.getItem(pendingUploadsKey) || '[]');
+    } catch {
+        return [];
+    }
+}
+
+function savePendingUploads(uploads: PendingUpload[]) {
+    localStorage.setItem(pendingUploadsKey, JSON.stringify(uploads));
+}
+
+function forgetUpload(id: string) {
+    savePendingUploads(pendingUploads().filter((upload) => upload.id !== id));
+}
+
+async function sha256Hex(data: ArrayBuffer) {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Web Crypto can only hash data that's all in memory, so the whole file is hashed incrementally instead
+async function fileSha256Hex(file: Blob) {
+    const hash = sha256.create();
+    for (let offset = 0; offset < file.size; offset += hashSliceSize) {
+        hash.update(new Uint8Array(await file.slice(offset, offset + hashSliceSize).arrayBuffer()));
+    }
+    return bytesToHex(hash.digest());
+}
+
+async function uploadPart(api: ApiClient, id: string, index: number, chunk: ArrayBuffer) {
+    const hash = await sha256Hex(chunk);
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await api.uploadPart(id, index, chunk, hash);
+        } catch (e) {
+            // Network errors, timeouts and server errors are retried after a pause; a part the server rejected is not
+            if (attempt >= maxPartAttempts || (e instanceof ApiRequestError && e.status > 0 && e.status < 500)) throw e;
+            await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+        }
+    }
+}
+
+// Continues an earlier upload of the same file to the same target, if the server still has it
+async function resumableStatus(api: ApiClient, file: File, sha256: string, target: UploadTarget): Promise<UploadStatus | null> {
+    const pending = pendingUploads().find(
+        (upload) => upload.sha256 === sha256 && upload.fileName === file.name && JSON.stringify(upload.target) === JSON.stringify(target)
+    );
+    if (!pending) return null;
+    try {
+        return (await api.uploadStatus(pending.id)).upload;
+    } catch {
+        forgetUpload(pending.id);
+        return null;
+    }
+}
+
+// Uploads the file part by part, reporting the share of parts sent so far, and completes the upload
+export async function uploadInChunks(
+    api: ApiClient,
+    file: File,
+    target: UploadTarget,
+    onProgress?: (fraction: number) => void
+): Promise<UploadCompleteResponse> {
+    const fileHash = await fileSha256Hex(file);
+    let status = await resumableStatus(api, file, fileHash, target);
+    if (!status) {
+        const { upload } = await api.createUpload({ fileName: file.name, size: file.size, type: file.type, sha256: fileHash, target });
+        status = { ...upload, uploadedParts: [] };
+        savePendingUploads([...pendingUploads(), { id: upload.id, fileName: file.name, size: file.size, sha256: fileHash, target }]);
+    }
+
+    const uploaded = new Set(status.uploadedParts);
+    onProgress?.(uploaded.size / status.chunkCount);
+    for (let index = 0; index < status.chunkCount; index++) {
+        if (uploaded.has(index)) continue;
+        const chunk = await file.slice(index * status.chunkSize, (index + 1) * status.chunkSize).arrayBuffer();
+        await uploadPart(api, status.id, index, chunk);
+        uploaded.add(index);
+        onProgress?.(uploaded.size / status.chunkCount);
+    }
+
+    try {
+        const result = await api.completeUpload(status.id);
+        forgetUpload(status.id);
+        return result;
+    } catch (e) {
+        // The parts made up a different file than announced, or one the upload policy refuses (the server has
+        // discarded it then), so resuming would fail the same way
+        if (e instanceof ApiRequestError && (e.status === 415 || e.status === 422)) await abortUpload(api, status.id);
+        throw e;
+    }
+}
+
+export async function abortUpload(api: ApiClient, id: string) {
+    forgetUpload(id);
+    await api.deleteUpload(id).catch(() => undefined);
+}
@@ -0,0 +1,147 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { getStore } from '@netlify/blobs';
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import { getShape } from './shapes';
+import type { ShapeCollection, ShapeListItem, ShareLink } from '../types';
+
+// Named groups of shapes, referenced by key, which can be shared read-only through public links.
+// collections/<id> holds a ShapeCollection, shares/<hash of the token> a ShareLink. Only the hash of a share token is
+// stored, so the store alone doesn't reveal working links; the token itself is shown once, when the link is created.
+function collectionStore() {
+    return getStore({ name: 'collections', consistency: 'strong' });
+}
+
+export const maxCollectionShapes = 100;
+export const maxShareDays = 365;
+const defaultShareDays = 30;
+const day = 24 * 60 * 60 * 1000;
+
+function tokenHash(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+// Enough of the hash to tell the links of a collection apart, and to find one by listing the prefix
+function shareId(hash: string) {
+    return hash.slice(0, 16);
+}
+
+type CollectionInput = Partial<Pick<ShapeCollection, 'name' | 'description' | 'shapeKeys'>>;
+
+function parseCollectionInput(input: unknown, partial: boolean): CollectionInput {
+    const { name, description, shapeKeys } = (input ?? {}) as Record<string, unknown>;
+    const validName = typeof name === 'string' && name.trim().length > 0 && name.trim().length <= 80;
+    const validDescription = description === undefined || (typeof description === 'string' && description.length <= 500);
+    const validKeys =
+        shapeKeys === undefined ||
+        (Array.isArray(shapeKeys) && shapeKeys.length <= maxCollectionShapes && shapeKeys.every((key) => typeof key === 'string' && key));
+    const nameRequired = !partial || name !== undefined;
+    if ((nameRequired && !validName) || !validDescription || !validKeys) {
+        throw new ApiError(400, t('errors.collectionRequest', { max: maxCollectionShapes }));
+    }
+    return {
+        ...(name !== undefined && { name: (name as string).trim() }),
+        ...(description !== undefined && { description: description as string }),
+        ...(shapeKeys !== undefined && { shapeKeys: [...new Set(shapeKeys as string[])] })
+    };
+}
+
+export async function listCollections(): Promise<ShapeCollection[]> {
+    const store = collectionStore();
+    const { blobs } = await store.list({ prefix: 'collections/' });
+    const collections = await Promise.all(blobs.map(({ key }) => store.get(key, { type: 'json' }) as Promise<ShapeCollection | null>));
+    return collections.filter(Boolean).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getCollection(id: string) {
+    return (await collectionStore().get(`collections/${id}`, { type: 'json' })) as ShapeCollection | null;
+}
+
+async function requireCollection(id: string) {
+    const collection = await getCollection(id);
+    if (!collection) throw new ApiError(404, t('errors.collectionNotFound', { id }));
+    return collection;
+}
+
+export async function createCollection(input: unknown): Promise<ShapeCollection> {
+    const { name, description = '', shapeKeys = [] } = parseCollectionInput(input, false);
+    const now = Date.now();
+    const collection: ShapeCollection = { id: crypto.randomUUID(), name, description, shapeKeys, createdAt: now, updatedAt: now };
+    await collectionStore().setJSON(`collections/${collection.id}`, collection);
+    return collection;
+}
+
+export async function updateCollection(id: string, input: unknown): Promise<ShapeCollection> {
+    const collection: ShapeCollection = { ...(await requireCollection(id)), ...parseCollectionInput(input, true), updatedAt: Date.now() };
+    await collectionStore().setJSON(`collections/${id}`, collection);
+    return collection;
+}
+
+// Also revokes the collection's links, which would otherwise lead nowhere
+export async function deleteCollection(id: string) {
+    await requireCollection(id);
+    const store = collectionStore();
+    for (const share of await listShareLinks(id)) {
+        if (!share.revokedAt) await revokeShareLink(id, share.id);
+    }
+    await store.delete(`collections/${id}`);
+}
+
+// Keeps collections pointing at a shape after it was renamed, or drops it from them once deleted (newKey null)
+export async function replaceShapeKey(oldKey: string, newKey: string | null) {
+    const store = collectionStore();
+    for (const collection of await listCollections()) {
+        if (!collection.shapeKeys.includes(oldKey)) continue;
+        const shapeKeys = collection.shapeKeys.map((key) => (key === oldKey ? newKey : key)).filter(Boolean);
+        await store.setJSON(`collections/${collection.id}`, { ...collection, shapeKeys: [...new Set(shapeKeys)], updatedAt: Date.now() });
+    }
+}
+
+export async function listShareLinks(collectionId: string): Promise<ShareLink[]> {
+    const store = collectionStore();
+    const { blobs } = await store.list({ prefix: 'shares/' });
+    const shares = await Promise.all(blobs.map(({ key }) => store.get(key, { type: 'json' }) as Promise<ShareLink | null>));
+    return shares.filter((share) => share?.collectionId === collectionId).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Returns the link along with its token, which can't be recovered later
+export async function createShareLink(collectionId: string, input: unknown): Promise<{ share: ShareLink; token: string }> {
+    await requireCollection(collectionId);
+    const { expiresInDays = defaultShareDays } = (input ?? {}) as Record<string, unknown>;
+    if (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > maxShareDays) {
+        throw new ApiError(400, t('errors.shareRequest', { max: maxShareDays }));
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const hash = tokenHash(token);
+    const now = Date.now();
+    const share: ShareLink = { id: shareId(hash), collectionId, createdAt: now, expiresAt: now + (expiresInDays as number) * day, revokedAt: null };
+    await collectionStore().setJSON(`shares/${hash}`, share);
+    return { share, token };
+}
+
+// Revoked links are kept, so that the collection's owners can still see them in the list
+export async function revokeShareLink(collectionId: string, id: string): Promise<ShareLink> {
+    if (!/^[\da-f]{16}$/.test(id)) throw new ApiError(404, t('errors.shareNotFound', { id }));
+    const store = collectionStore();
+    const { blobs } = await store.list({ prefix: `shares/${id}` });
+    const key = blobs[0]?.key;
+    const share = key ? ((await store.get(key, { type: 'json' })) as ShareLink | null) : null;
+    if (!share || share.collectionId !== collectionId) throw new ApiError(404, t('errors.shareNotFound', { id }));
+
+    const revoked = { ...share, revokedAt: share.revokedAt ?? Date.now() };
+    await store.setJSON(key, revoked);
+    return revoked;
+}
+
+// What a public link shows: the collection and its shapes that still exist. Null for unknown, expired or revoked links.
+export async function resolveShareLink(token: string): Promise<{ collection: ShapeCollection; shapes: ShapeListItem[]; share: ShareLink } | null> {
+    if (!/^[\w-]{43}$/.test(token)) return null;
+    const share = (await collectionStore().get(`shares/${tokenHash(token)}`, { type: 'json' })) as ShareLink | null;
+    if (!share || share.revokedAt || share.expiresAt <= Date.now()) return null;
+
+    const collection = await getCollection(share.collectionId);
+    if (!collection) return null;
+    const shapes = await Promise.all(collection.shapeKeys.map(async (key) => ({ key, ...(await getShape(key)) })));
+    return { collection, shapes: shapes.filter((shape) => shape.parameters), share };
+}
@@ -0,0 +1,107 @@
+import { getStore } from '@netlify/blobs';
+import { ApiError, runInBackground } from '../utils';
+import { convertDocument } from './converter';
+import { currentLocale, t } from './requestLocale';
+import type { ConversionJob, DocumentFormat } from '../types';
+
+// Jobs, their uploaded input and their output share one store, split by key prefix:
+// jobs/<id> holds the job state as JSON, inputs/<id> the source file until it's converted, results/<id> the output.
+function jobStore() {
+    return getStore({ name: 'conversion-jobs', consistency: 'strong' });
+}
+
+// Jobs run in netlify/functions/convert-background.mts, which Netlify stops after 15 minutes. A job that hasn't moved for
+// longer than that was lost along with its function, and would otherwise stay queued or running forever.
+const conversionJobTimeout = 16 * 60 * 1000;
+const backgroundFunctionPath = '/.netlify/functions/convert-background';
+
+export async function getConversionJob(id: string) {
+    const job = (await jobStore().get(`jobs/${id}`, { type: 'json' })) as ConversionJob | null;
+    if (job && (job.status === 'queued' || job.status === 'running') && Date.now() - job.updatedAt > conversionJobTimeout) {
+        await jobStore().delete(`inputs/${id}`);
+        return updateConversionJob(job, { status: 'failed', error: t('errors.jobTimedOut', { name: job.fileName }) });
+    }
+    return job;
+}
+
+async function updateConversionJob(job: ConversionJob, changes: Partial<ConversionJob>) {
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    await jobStore().setJSON(`jobs/${job.id}`, job);
+    return job;
+}
+
+export async function createConversionJob(file: File, sourceFormat: DocumentFormat, targetFormat: DocumentFormat) {
+    const now = Date.now();
+    const job: ConversionJob = {
+        id: crypto.randomUUID(),
+        fileName: file.name,
+        fileSize: file.size,
+        sourceFormat,
+        targetFormat,
+        status: 'queued',
+        progress: 0,
+        createdAt: now,
+        updatedAt: now
+    };
+    const store = jobStore();
+    await store.set(`inputs/${job.id}`, file);
+    await store.setJSON(`jobs/${job.id}`, job);
+    return job;
+}
+
+// Hands the job to the background function, which responds with a 202 right away. Where it isn't deployed, as with a
+// plain `astro dev`, the job runs in this function instead.
+export async function startConversionJob(job: ConversionJob, request: Request, locals: App.Locals) {
+    const response = await fetch(new URL(backgroundFunctionPath, request.url), {
+        method: 'POST',
+        body: JSON.stringify({ id: job.id, locale: currentLocale() })
+    }).catch(() => null);
+    if (response?.status !== 202) {
+        runInBackground(locals, claimConversionJob(job.id).then((claimed) => claimed && runConversionJob(claimed)));
+    }
+}
+
+// Marks a queued job as running, but only if nothing changed it since it was read. Returns null when the job isn't
+// queued, or when another invocation claimed it first, so that a job never runs twice.
+export async function claimConversionJob(id: string) {
+    const store = jobStore();
+    const entry = await store.getWithMetadata(`jobs/${id}`, { type: 'json' });
+    const job = entry?.data as ConversionJob | undefined;
+    if (job?.status !== 'queued') return null;
+
+    Object.assign(job, { status: 'running', progress: 10, updatedAt: Date.now() });
+    const { modified } = await store.setJSON(`jobs/${id}`, job, { onlyIfMatch: entry.etag });
+    return modified ? job : null;
+}
+
+// Runs a job returned by claimConversionJob
+export async function runConversionJob(job: ConversionJob) {
+    const store = jobStore();
+    try {
+        const input = await store.get(`inputs/${job.id}`, { type: 'arrayBuffer' });
+        if (!input) throw new Error('Uploaded file is missing');
+
+        const baseName = job.fileName.replace(/\.[^.]+$/, '');
+        const output = await convertDocument(new Uint8Array(input), job.sourceFormat, job.targetFormat, {
+            title: baseName,
+            onProgress: (progress) => updateConversionJob(job, { progress: Math.round(10 + progress * 80) }).then(() => undefined)
+        });
+
+        await store.set(`results/${job.id}`, new Blob([output]));
+        await store.delete(`inputs/${job.id}`);
+        await updateConversionJob(job, { status: 'done', progress: 100, resultFileName: `${baseName}.${job.targetFormat}`, resultSize: output.byteLength });
+    } catch (e) {
+        if (!(e instanceof ApiError)) console.error(e);
+        const error = e instanceof ApiError ? e.message : t('errors.conversionFailed', { name: job.fileName });
+        await updateConversionJob(job, { status: 'failed', error });
+    }
+    return job;
+}
+
+export async function getConversionResult(job: ConversionJob) {
+    return jobStore().get(`results/${job.id}`, { type: 'stream' });
+}
+
+export async function getConversionResultData(job: ConversionJob) {
+    return jobStore().get(`results/${job.id}`, { type: 'arrayBuffer' });
+}
@@ -0,0 +1,500 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { marked, type Token, type Tokens } from 'marked';
+import TurndownService from 'turndown';
+import mammoth from 'mammoth';
+import { extractText } from 'unpdf';
+import { PDFDocument, PageSizes, StandardFonts, type PDFFont, type PDFPage } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { AlignmentType, Document, HeadingLevel, LevelFormat, Packer, Paragraph, TextRun } from 'docx';
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import type { DocumentFormat } from '../types';
+
+// Every conversion goes through Markdown: sources are read into Markdown, which is then rendered into the target format.
+// The legacy binary .doc format is deliberately absent, as there is no way to read it without an external service.
+const conversions: Record<DocumentFormat, DocumentFormat[]> = {
+    md: ['txt', 'html', 'docx', 'pdf'],
+    txt: ['md', 'html', 'docx', 'pdf'],
+    html: ['md', 'txt', 'docx', 'pdf'],
+    docx: ['md', 'txt', 'html', 'pdf'],
+    pdf: ['md', 'txt', 'html', 'docx']
+};
+
+export const documentMimeTypes: Record<DocumentFormat, string> = {
+    md: 'text/markdown; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    pdf: 'application/pdf'
+};
+
+export function documentFormatFromFileName(fileName: string): DocumentFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'markdown') return 'md';
+    if (extension === 'htm') return 'html';
+    return extension in conversions ? (extension as DocumentFormat) : null;
+}
+
+export function isSupportedConversion(from: string, to: string): boolean {
+    return from in conversions && conversions[from].includes(to);
+}
+
+type ConversionRequest = { file: File; sourceFormat: DocumentFormat; targetFormat: DocumentFormat } | { error: string; status: number };
+
+// Reads the multipart body shared by the conversion routes: a "file" and the "targetFormat" to convert it to.
+export async function parseConversionRequest(request: Request): Promise<ConversionRequest> {
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    const targetFormat = formData?.get('targetFormat');
+    if (!(file instanceof File) || typeof targetFormat !== 'string') {
+        return { error: t('errors.conversionRequest'), status: 400 };
+    }
+
+    const sourceFormat = documentFormatFromFileName(file.name);
+    if (!isSupportedConversion(sourceFormat, targetFormat)) {
+        return { error: t('errors.conversionUnsupported', { source: sourceFormat ?? file.name, target: targetFormat }), status: 415 };
+    }
+    return { file, sourceFormat, targetFormat: targetFormat as DocumentFormat };
+}
+
+interface ConvertOptions {
+    title?: string;
+    // Called with a completion ratio between 0 and 1 as the conversion moves through its stages
+    onProgress?: (progress: number) => Promise<void> | void;
+}
+
+export async function convertDocument(data: Uint8Array, from: DocumentFormat, to: DocumentFormat, options: ConvertOptions = {}): Promise<Uint8Array> {
+    const { title = 'Document', onProgress } = options;
+    if (!isSupportedConversion(from, to)) throw new Error(`Unsupported conversion: ${from} to ${to}`);
+
+    const markdown = await readAsMarkdown(data, from);
+    await onProgress?.(0.5);
+    switch (to) {
+        case 'md':
+            return new TextEncoder().encode(markdown);
+        case 'txt':
+            return new TextEncoder().encode(renderText(toBlocks(markdown)));
+        case 'html':
+            return new TextEncoder().encode(await renderHtml(markdown, title));
+        case 'docx':
+            return new Uint8Array(await renderDocx(toBlocks(markdown), title));
+        case 'pdf':
+            return renderPdf(toBlocks(markdown), title);
+    }
+}
+
+async function readAsMarkdown(data: Uint8Array, format: DocumentFormat): Promise<string> {
+    switch (format) {
+        case 'md':
+            return new TextDecoder().decode(data);
+        case 'txt':
+            return textToMarkdown(new TextDecoder().decode(data));
+        case 'html':
+            return htmlToMarkdown(new TextDecoder().decode(data));
+        case 'docx': {
+            const { value: html } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+            return htmlToMarkdown(html);
+        }
+        case 'pdf': {
+            const { text } = await extractText(data, { mergePages: true });
+            return textToMarkdown(text);
+        }
+    }
+}
+
+function htmlToMarkdown(html: string) {
+    const turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+    turndown.remove(['script', 'style', 'head']);
+    return turndown.turndown(html);
+}
+
+// Plain text has no markup, so anything Markdown would interpret is escaped to keep the text as-is.
+function textToMarkdown(text: string) {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/)
+        .map((paragraph) =>
+            paragraph
+                .replace(/([\\`*_[\]<>#|~])/g, '\\$1')
+                .replace(/^(\s*)([-+])(\s)/gm, '$1\\$2$3')
+                .replace(/^(\s*\d+)\.(\s)/gm, '$1\\.$2')
+                .replace(/\n/g, '  \n')
+        )
+        .join('\n\n');
+}
+
+type Run = { text: string; bold?: boolean; italic?: boolean; code?: boolean };
+
+type Block =
+    | { type: 'heading'; level: number; runs: Run[] }
+    | { type: 'paragraph'; runs: Run[] }
+    | { type: 'quote'; runs: Run[] }
+    | { type: 'list-item'; runs: Run[]; ordered: boolean; number: number; depth: number; list: number }
+    | { type: 'code'; text: string }
+    | { type: 'rule' };
+
+function toBlocks(markdown: string): Block[] {
+    const blocks: Block[] = [];
+    let listCount = 0;
+
+    const visit = (tokens: Token[], depth = 0) => {
+        for (const token of tokens) {
+            switch (token.type) {
+                case 'heading':
+                    blocks.push({ type: 'heading', level: token.depth, runs: inlineRuns(token.tokens) });
+                    break;
+                case 'paragraph':
+                    blocks.push({ type: 'paragraph', runs: inlineRuns(token.tokens) });
+                    break;
+                case 'text':
+                    blocks.push({ type: 'paragraph', runs: (token as Tokens.Text).tokens ? inlineRuns((token as Tokens.Text).tokens) : [{ text: token.text }] });
+                    break;
+                case 'blockquote':
+                    blocks.push({
+                        type: 'quote',
+                        runs: (token as Tokens.Blockquote).tokens.flatMap((child, index) => [...(index ? [{ text: '\n' }] : []), ...inlineRuns([child])])
+                    });
+                    break;
+                case 'code':
+                    blocks.push({ type: 'code', text: token.text });
+                    break;
+                case 'hr':
+                    blocks.push({ type: 'rule' });
+                    break;
+                case 'list': {
+                    const list = token as Tokens.List;
+                    const listId = listCount++;
+                    list.items.forEach((item, index) => {
+                        const [first, ...rest] = item.tokens;
+                        const runs = first && (first.type === 'text' || first.type === 'paragraph') ? inlineRuns((first as Tokens.Text).tokens ?? [first]) : [];
+                        blocks.push({
+                            type: 'list-item',
+                            runs,
+                            ordered: list.ordered,
+                            number: (Number(list.start) || 1) + index,
+                            depth,
+                            list: listId
+                        });
+                        visit(runs.length ? rest : item.tokens, depth + 1);
+                    });
+                    break;
+                }
+                case 'table': {
+                    const table = token as Tokens.Table;
+                    for (const row of [table.header, ...table.rows]) {
+                        blocks.push({ type: 'paragraph', runs: row.flatMap((cell, index) => [...(index ? [{ text: '\t' }] : []), ...inlineRuns(cell.tokens)]) });
+                    }
+                    break;
+                }
+                case 'html':
+                    if (token.text.trim()) blocks.push({ type: 'paragraph', runs: [{ text: stripTags(token.text) }] });
+                    break;
+            }
+        }
+    };
+
+    visit(marked.lexer(markdown));
+    return blocks;
+}
+
+function inlineRuns(tokens: Token[] = [], style: Omit<Run, 'text'> = {}): Run[] {
+    return tokens.flatMap((token): Run[] => {
+        switch (token.type) {
+            case 'strong':
+                return inlineRuns(token.tokens, { ...style, bold: true });
+            case 'em':
+                return inlineRuns(token.tokens, { ...style, italic: true });
+            case 'codespan':
+                return [{ ...style, code: true, text: decodeEntities(token.text) }];
+            case 'br':
+                return [{ ...style, text: '\n' }];
+            case 'image':
+                return token.text ? [{ ...style, text: token.text }] : [];
+            case 'html':
+                return [{ ...style, text: stripTags(token.text) }];
+            case 'link':
+            case 'del':
+            case 'text':
+            case 'paragraph':
+                return (token as Tokens.Text).tokens?.length ? inlineRuns((token as Tokens.Text).tokens, style) : [{ ...style, text: decodeEntities(token.text) }];
+            default:
+                return 'text' in token ? [{ ...style, text: decodeEntities(token.text) }] : [];
+        }
+    });
+}
+
+function stripTags(html: string) {
+    return decodeEntities(html.replace(/<[^>]*>/g, ''));
+}
+
+function decodeEntities(text: string) {
+    return text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|#39|nbsp);/gi, (entity, code: string) => {
+        const named = { amp: '&', lt: '<', gt: '>', quot: '"', nbsp: ' ' }[code.toLowerCase()];
+        if (named) return named;
+        const codePoint = code[1]?.toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    });
+}
+
+function runsText(runs: Run[]) {
+    return runs.map(({ text }) => text).join('');
+}
+
+function renderText(blocks: Block[]) {
+    return (
+        blocks
+            .map((block) => {
+                switch (block.type) {
+                    case 'heading':
+                    case 'paragraph':
+                        return runsText(block.runs);
+                    case 'quote':
+                        return runsText(block.runs).replace(/^/gm, '    ');
+                    case 'list-item':
+                        return '  '.repeat(block.depth) + (block.ordered ? `${block.number}. ` : '- ') + runsText(block.runs);
+                    case 'code':
+                        return block.text.replace(/^/gm, '    ');
+                    case 'rule':
+                        return '----------';
+                }
+            })
+            .join('\n\n') + '\n'
+    );
+}
+
+async function renderHtml(markdown: string, title: string) {
+    const body = await marked.parse(markdown);
+    return `<!doctype html>
+<html>
+    <head>
+        <meta charset="utf-8" />
+        <title>${title.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`)}</title>
+    </head>
+    <body>
+${body}
+    </body>
+</html>
+`;
+}
+
+const docxHeadingLevels = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6
+];
+
+function docxRuns(runs: Run[], italics = false) {
+    return runs.flatMap(({ text, bold, italic, code }) =>
+        text.split('\n').map(
+            (line, index) =>
+                new TextRun({
+                    text: line,
+                    bold,
+                    italics: italic || italics,
+                    font: code ? 'Courier New' : undefined,
+                    break: index > 0 ? 1 : undefined
+                })
+        )
+    );
+}
+
+async function renderDocx(blocks: Block[], title: string) {
+    const children = blocks.map((block) => {
+        switch (block.type) {
+            case 'heading':
+                return new Paragraph({ heading: docxHeadingLevels[block.level - 1], children: docxRuns(block.runs) });
+            case 'paragraph':
+                return new Paragraph({ children: docxRuns(block.runs) });
+            case 'quote':
+                return new Paragraph({ indent: { left: 720 }, children: docxRuns(block.runs, true) });
+            case 'list-item':
+                return block.ordered
+                    ? new Paragraph({ numbering: { reference: 'ordered-list', level: block.depth, instance: block.list }, children: docxRuns(block.runs) })
+                    : new Paragraph({ bullet: { level: block.depth }, children: docxRuns(block.runs) });
+            case 'code':
+                return new Paragraph({ children: docxRuns([{ text: block.text, code: true }]) });
+            case 'rule':
+                return new Paragraph({ thematicBreak: true });
+        }
+    });
+
+    const document = new Document({
+        title,
+        numbering: {
+            config: [
+                {
+                    reference: 'ordered-list',
+                    levels: [0, 1, 2, 3, 4, 5].map((level) => ({
+                        level,
+                        format: LevelFormat.DECIMAL,
+                        text: `%${level + 1}.`,
+                        alignment: AlignmentType.START,
+                        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+                    }))
+                }
+            ]
+        },
+        sections: [{ children }]
+    });
+    return Packer.toBuffer(document);
+}
+
+// The standard PDF fonts only cover the WinAnsi character set. Anything outside of it, such as Chinese, is drawn with
+// Noto Sans SC, which is only embedded (as a subset of the characters used) when a document needs it.
+const winAnsiExtras = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const outsideWinAnsi = new RegExp(`[^\\n\\x20-\\x7e\\xa0-\\xff${winAnsiExtras}]`, 'gu');
+// Line breaks, spaces and words of WinAnsi text, and single characters outside of it, as CJK text may wrap between any two
+const pdfTextParts = new RegExp(`(\\n|[^\\S\\n]+|${outsideWinAnsi.source})`, 'u');
+// Bundled with the server function through includeFiles in astro.config.mjs
+const unicodeFontFile = '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf';
+
+function blockText(block: Block) {
+    if (block.type === 'code') return block.text;
+    return 'runs' in block ? block.runs.map((run) => run.text).join('') : '';
+}
+
+// Embeds the Unicode font when the blocks have characters outside WinAnsi, and fails with a 422 listing the characters
+// that it can't draw either, rather than leaving gaps in the text
+async function embedUnicodeFont(pdf: PDFDocument, blocks: Block[]): Promise<PDFFont | null> {
+    const characters = new Set(blocks.flatMap((block) => blockText(block).match(outsideWinAnsi) ?? []));
+    if (!characters.size) return null;
+
+    pdf.registerFontkit(fontkit);
+    const font = await pdf.embedFont(await readFile(createRequire(import.meta.url).resolve(unicodeFontFile)), { subset: true });
+    const covered = new Set(font.getCharacterSet());
+    const missing = [...characters].filter((char) => !covered.has(char.codePointAt(0)));
+    if (missing.length) {
+        throw new ApiError(422, t('errors.pdfUnsupportedCharacters', { characters: missing.slice(0, 10).join(' ') }));
+    }
+    return font;
+}
+
+const pdfMargin = 56;
+const pdfBodySize = 11;
+const pdfHeadingSizes = [22, 18, 15, 13, 12, 11];
+
+async function renderPdf(blocks: Block[], title: string): Promise<Uint8Array> {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(title);
+    const fonts = {
+        regular: await pdf.embedFont(StandardFonts.Helvetica),
+        bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+        italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+        boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+        code: await pdf.embedFont(StandardFonts.Courier),
+        unicode: await embedUnicodeFont(pdf, blocks)
+    };
+    const fontFor = ({ bold, italic, code }: Run): PDFFont => {
+        if (code) return fonts.code;
+        if (bold) return italic ? fonts.boldItalic : fonts.bold;
+        return italic ? fonts.italic : fonts.regular;
+    };
+
+    let page: PDFPage = pdf.addPage(PageSizes.A4);
+    let y = page.getHeight() - pdfMargin;
+    const contentWidth = page.getWidth() - pdfMargin * 2;
+
+    const advance = (height: number) => {
+        if (y - height < pdfMargin) {
+            page = pdf.addPage(PageSizes.A4);
+            y = page.getHeight() - pdfMargin;
+        }
+        y -= height;
+    };
+
+    const writeRuns = (runs: Run[], size: number, indent = 0) => {
+        const lineHeight = size * 1.4;
+        const maxWidth = contentWidth - indent;
+        let line: { text: string; font: PDFFont; width: number }[] = [];
+        let lineWidth = 0;
+        // Whether the current line continues the one above it because that one was too long
+        let wrapped = false;
+
+        const flush = (wrap = false) => {
+            advance(lineHeight);
+            let x = pdfMargin + indent;
+            for (const word of line) {
+                page.drawText(word.text, { x, y, size, font: word.font });
+                x += word.width;
+            }
+            line = [];
+            lineWidth = 0;
+            wrapped = wrap;
+        };
+
+        for (const run of runs) {
+            for (const part of run.text.replace(/\t/g, '    ').split(pdfTextParts)) {
+                if (!part) continue;
+                const font = part.match(outsideWinAnsi) ? fonts.unicode : fontFor(run);
+                if (part === '\n') {
+                    flush();
+                    continue;
+                }
+                // Whitespace starting a line of code is its indentation. Elsewhere it only separated a word from the previous line's.
+                if (/^\s+$/.test(part) && !line.length && (!run.code || wrapped)) continue;
+
+                let text = part;
+                let width = font.widthOfTextAtSize(text, size);
+                if (lineWidth + width > maxWidth && line.length) {
+                    flush(true);
+                    if (/^\s+$/.test(text)) continue;
+                }
+                // Words wider than a whole line are hard-wrapped character by character.
+                while (width > maxWidth) {
+                    let cut = text.length - 1;
+                    while (cut > 1 && font.widthOfTextAtSize(text.slice(0, cut), size) > maxWidth) cut--;
+                    line.push({ text: text.slice(0, cut), font, width: font.widthOfTextAtSize(text.slice(0, cut), size) });
+                    flush(true);
+                    text = text.slice(cut);
+                    width = font.widthOfTextAtSize(text, size);
+                }
+                line.push({ text, font, width });
+                lineWidth += width;
+            }
+        }
+        if (line.length) flush();
+    };
+
+    for (const block of blocks) {
+        switch (block.type) {
+            case 'heading': {
+                const size = pdfHeadingSizes[block.level - 1];
+                advance(size * 0.6);
+                writeRuns(
+                    block.runs.map((run) => ({ ...run, bold: true })),
+                    size
+                );
+                break;
+            }
+            case 'paragraph':
+                writeRuns(block.runs, pdfBodySize);
+                break;
+            case 'quote':
+                writeRuns(
+                    block.runs.map((run) => ({ ...run, italic: true })),
+                    pdfBodySize,
+                    24
+                );
+                break;
+            case 'list-item': {
+                const indent = 18 * (block.depth + 1);
+                writeRuns([{ text: block.ordered ? `${block.number}. ` : '• ' }, ...block.runs], pdfBodySize, indent);
+                break;
+            }
+            case 'code':
+                writeRuns([{ text: block.text, code: true }], pdfBodySize - 1, 12);
+                break;
+            case 'rule':
+                advance(pdfBodySize);
+                page.drawLine({ start: { x: pdfMargin, y }, end: { x: pdfMargin + contentWidth, y }, thickness: 0.5 });
+                break;
+        }
+        advance(pdfBodySize * 0.6);
+    }
+
+    return pdf.save();
+}
@@ -0,0 +1,30 @@
+import { getStore } from '@netlify/blobs';
+import { experiments, exposurePrefix, exposureStoreName } from '../../netlify/edge-functions/lib/experiments.ts';
+import type { ExperimentResult } from '../types';
+
+async function countKeys(prefix: string) {
+    let count = 0;
+    for await (const page of getStore(exposureStoreName).list({ prefix, paginate: true })) {
+        count += page.blobs.length;
+    }
+    return count;
+}
+
+// Counts the exposures recorded by the experiments edge function, per variant
+export async function experimentResults(): Promise<ExperimentResult[]> {
+    return Promise.all(
+        experiments.map(async (experiment) => ({
+            id: experiment.id,
+            description: experiment.description,
+            path: experiment.path,
+            variants: await Promise.all(
+                experiment.variants.map(async (variant) => ({
+                    name: variant.name,
+                    weight: variant.weight,
+                    path: variant.path ?? experiment.path,
+                    exposures: await countKeys(exposurePrefix(experiment, variant))
+                }))
+            )
+        }))
+    );
+}
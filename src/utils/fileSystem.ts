@@ -0,0 +1,108 @@
+import { getStore } from '@netlify/blobs';
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import type { DirectoryListing, VirtualFile } from '../types';
+
+// Files are stored under their full path as key (e.g. "reports/2024/summary.pdf"), so folders are just key prefixes.
+// As blob stores have no notion of empty folders, creating one writes a placeholder entry that listings hide.
+const folderMarker = '.folder';
+
+function fileStore() {
+    return getStore({ name: 'files', consistency: 'strong' });
+}
+
+// Returns a canonical "a/b/c" path, or null if the path is unsafe or malformed. The root folder is the empty string.
+export function normalizePath(path: string | null | undefined): string | null {
+    const segments = (path ?? '').split('/').filter(Boolean);
+    if (segments.some((segment) => segment === '.' || segment === '..' || segment === folderMarker || /[\\\x00-\x1f]/.test(segment))) return null;
+    return segments.join('/');
+}
+
+export function baseName(path: string) {
+    return path.split('/').pop();
+}
+
+export function joinPath(folder: string, name: string) {
+    return folder ? `${folder}/${name}` : name;
+}
+
+async function fileExists(path: string) {
+    return path !== '' && !!(await fileStore().getMetadata(path));
+}
+
+async function folderKeys(path: string) {
+    const { blobs } = await fileStore().list({ prefix: `${path}/` });
+    return blobs.map(({ key }) => key);
+}
+
+export async function listDirectory(path: string): Promise<DirectoryListing> {
+    const store = fileStore();
+    const { blobs, directories } = await store.list({ prefix: path ? `${path}/` : '', directories: true });
+    const files = await Promise.all(
+        blobs
+            .filter(({ key }) => baseName(key) !== folderMarker)
+            .map(async ({ key }): Promise<VirtualFile> => {
+                const metadata: Record<string, unknown> = (await store.getMetadata(key))?.metadata ?? {};
+                return {
+                    path: key,
+                    name: baseName(key),
+                    size: Number(metadata.size ?? 0),
+                    type: String(metadata.type ?? 'application/octet-stream'),
+                    updatedAt: Number(metadata.updatedAt ?? 0)
+                };
+            })
+    );
+    return {
+        path,
+        directories: directories.map((directory) => baseName(directory.replace(/\/$/, ''))).sort(),
+        files: files.sort((a, b) => a.name.localeCompare(b.name))
+    };
+}
+
+export async function readFile(path: string) {
+    return fileStore().getWithMetadata(path, { type: 'stream' });
+}
+
+export async function writeFile(path: string, file: File) {
+    await fileStore().set(path, file, {
+        metadata: { size: file.size, type: file.type || 'application/octet-stream', updatedAt: Date.now() }
+    });
+}
+
+export async function createFolder(path: string) {
+    await fileStore().set(joinPath(path, folderMarker), '');
+}
+
+// Copies a file or a whole folder to a new path, failing if anything already exists there.
+export async function copyEntry(from: string, to: string) {
+    if (to === from || to.startsWith(`${from}/`)) throw new ApiError(400, t('errors.copyIntoItself', { path: from }));
+    if ((await fileExists(to)) || (await folderKeys(to)).length) throw new ApiError(409, t('errors.pathExists', { path: to }));
+
+    const store = fileStore();
+    const keys = (await fileExists(from)) ? [from] : await folderKeys(from);
+    if (!keys.length) throw new ApiError(404, t('errors.pathNotFound', { path: from }));
+
+    for (const key of keys) {
+        const entry = await store.getWithMetadata(key, { type: 'arrayBuffer' });
+        await store.set(to + key.slice(from.length), entry.data, { metadata: { ...entry.metadata, updatedAt: Date.now() } });
+    }
+}
+
+export async function moveEntry(from: string, to: string) {
+    await copyEntry(from, to);
+    await deleteEntry(from);
+}
+
+export async function renameEntry(path: string, name: string) {
+    const target = joinPath(path.split('/').slice(0, -1).join('/'), name);
+    await moveEntry(path, target);
+    return target;
+}
+
+// Deletes a file, or a folder along with everything in it.
+export async function deleteEntry(path: string) {
+    const store = fileStore();
+    const keys = (await fileExists(path)) ? [path] : await folderKeys(path);
+    if (!keys.length) throw new ApiError(404, t('errors.pathNotFound', { path }));
+    await Promise.all(keys.map((key) => store.delete(key)));
+}
@@ -1,6 +1,28 @@
-import { createHighlighter } from 'shiki';
+import { bundledLanguages, createHighlighter, type BundledLanguage } from 'shiki';
 
+// Code blocks are rendered with both themes: the dark one inline, the light one as CSS variables that
+// globals.css switches to when the visitor prefers a light color scheme.
+export const codeThemes = {
+    light: 'min-light',
+    dark: 'min-dark'
+};
+
+// Languages are loaded on demand, see loadLanguages()
 export const highlighterPromise = createHighlighter({
-    langs: ['jsx', 'js'],
-    themes: ['min-dark']
+    langs: [],
+    themes: Object.values(codeThemes)
 });
+
+// The language of a code fence ("ts", "json title=...") if Shiki knows it; anything else is shown as plain text
+export function codeLanguage(info: string | undefined): BundledLanguage | 'text' {
+    const lang = info?.trim().split(/\s+/)[0].toLowerCase();
+    return lang && lang in bundledLanguages ? (lang as BundledLanguage) : 'text';
+}
+
+export async function loadLanguages(langs: (BundledLanguage | 'text')[]) {
+    const highlighter = await highlighterPromise;
+    const loaded = highlighter.getLoadedLanguages();
+    const missing = [...new Set(langs)].filter((lang): lang is BundledLanguage => lang !== 'text' && !loaded.includes(lang));
+    if (missing.length > 0) await highlighter.loadLanguage(...missing);
+    return highlighter;
+}
@@ -0,0 +1,37 @@
+import en from '../i18n/en';
+import zhCN from '../i18n/zh-CN';
+import { defaultLocale, type Locale } from '../../netlify/edge-functions/lib/locales.ts';
+
+export { defaultLocale, isLocale, localeCookieMaxAge, localeCookieName, localeNames, locales, requestLocale } from '../../netlify/edge-functions/lib/locales.ts';
+export type { Locale };
+
+// Message catalogs, shared by the pages, the React components and the API routes. Browser-safe.
+
+export type Messages = typeof en;
+
+// Dotted paths to every message, e.g. "tools.convert.title"
+type MessageKeys<T, Prefix extends string = ''> = {
+    [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : MessageKeys<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessageKeys<Messages>;
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const catalogs: Record<Locale, Messages> = {
+    en,
+    'zh-CN': zhCN
+};
+
+// Placeholders without a matching parameter are left as they are, as messages may contain code samples with braces
+function interpolate(message: string, params: Record<string, string | number> = {}) {
+    return message.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+export function translator(locale: Locale = defaultLocale): Translate {
+    const catalog = catalogs[locale] ?? catalogs[defaultLocale];
+    return (key, params) => {
+        const message = key.split('.').reduce<unknown>((node, part) => node?.[part], catalog);
+        return interpolate(typeof message === 'string' ? message : key, params);
+    };
+}
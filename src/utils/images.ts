@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import type { ImageFormat } from '../types';
+
+export const imageFormats: ImageFormat[] = ['jpeg', 'webp', 'avif', 'png'];
+
+const imageExtensions: Record<ImageFormat, string> = {
+    jpeg: 'jpg',
+    webp: 'webp',
+    avif: 'avif',
+    png: 'png'
+};
+
+export interface CompressOptions {
+    quality: number;
+    maxDimension: number;
+    // Keeps the source format when not set (falling back to JPEG for formats that can't be written)
+    format?: ImageFormat;
+}
+
+export function compressedFileName(fileName: string, format: ImageFormat) {
+    return `${fileName.replace(/\.[^.]+$/, '')}.${imageExtensions[format]}`;
+}
+
+export async function compressImage(data: Uint8Array, options: CompressOptions) {
+    const { quality, maxDimension } = options;
+    const source = sharp(data, { failOn: 'error' });
+    const { format: sourceFormat } = await source.metadata();
+    const format = options.format ?? (imageFormats.includes(sourceFormat as ImageFormat) ? (sourceFormat as ImageFormat) : 'jpeg');
+
+    // rotate() bakes the EXIF orientation into the pixels, as all metadata is stripped from the output
+    const pipeline = source.rotate().resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+    switch (format) {
+        case 'jpeg':
+            pipeline.jpeg({ quality, mozjpeg: true });
+            break;
+        case 'webp':
+            pipeline.webp({ quality });
+            break;
+        case 'avif':
+            pipeline.avif({ quality });
+            break;
+        case 'png':
+            pipeline.png({ quality, palette: quality < 100, compressionLevel: 9 });
+            break;
+    }
+
+    const { data: output, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    return { data: output, format, width: info.width, height: info.height };
+}
+
+// The SVG's own width and height decide the output dimensions
+export async function rasterizeSvg(svg: string) {
+    return sharp(Buffer.from(svg)).png({ compressionLevel: 9 }).toBuffer();
+}
@@ -0,0 +1,98 @@
+import { Marked, type Token, type Tokens } from 'marked';
+import { codeLanguage, codeThemes, loadLanguages } from './highlighter';
+
+// Renders the Markdown of the Markdown component. Besides plain HTML, it returns the headings for a table of contents
+// and splits out GitHub-style admonitions ("> [!NOTE]", "> [!WARNING]") so that the component can wrap them in an Alert.
+
+export type AdmonitionKind = 'note' | 'warning';
+
+export interface MarkdownHeading {
+    depth: number;
+    id: string;
+    // Inline HTML without tags, ready for set:html
+    text: string;
+}
+
+// Consecutive regular blocks share one segment; each admonition gets its own
+export interface MarkdownSegment {
+    html: string;
+    admonition?: AdmonitionKind;
+}
+
+export interface RenderedMarkdown {
+    segments: MarkdownSegment[];
+    headings: MarkdownHeading[];
+}
+
+const admonitionPattern = /^\s*\[!(NOTE|WARNING)\][ \t]*\n?/i;
+
+// Keeps letters of any script, so that Chinese headings get readable anchors too
+function slugify(text: string) {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+function stripTags(html: string) {
+    return html.replace(/<[^>]+>/g, '');
+}
+
+export async function renderMarkdown(content: string): Promise<RenderedMarkdown> {
+    const headings: MarkdownHeading[] = [];
+    const usedIds = new Map<string, number>();
+    const uniqueId = (text: string) => {
+        const slug = slugify(text) || 'section';
+        const count = usedIds.get(slug) ?? 0;
+        usedIds.set(slug, count + 1);
+        return count ? `${slug}-${count}` : slug;
+    };
+
+    const marked = new Marked();
+    const codeBlocks: Tokens.Code[] = [];
+    const tokens = marked.lexer(content);
+    marked.walkTokens(tokens, (token) => {
+        if (token.type === 'code') codeBlocks.push(token as Tokens.Code);
+    });
+    // Also covers code inside blockquotes, so admonitions lexed again below find their languages loaded
+    const highlighter = await loadLanguages(codeBlocks.map(({ lang }) => codeLanguage(lang)));
+
+    marked.use({
+        // Renderers get the whole token, as in later versions of marked
+        useNewRenderer: true,
+        renderer: {
+            code({ text, lang }) {
+                return highlighter.codeToHtml(text, { lang: codeLanguage(lang), themes: codeThemes, defaultColor: 'dark' });
+            },
+            heading({ tokens, depth }) {
+                const html = this.parser.parseInline(tokens);
+                const text = stripTags(html);
+                const id = uniqueId(text);
+                headings.push({ depth, id, text });
+                return `<h${depth} id="${id}">${html} <a class="heading-anchor" href="#${id}" aria-hidden="true" tabindex="-1">#</a></h${depth}>\n`;
+            }
+        }
+    });
+
+    const segments: MarkdownSegment[] = [];
+    let pending: Token[] = [];
+    const flush = () => {
+        if (pending.some(({ type }) => type !== 'space')) segments.push({ html: marked.parser(pending) });
+        pending = [];
+    };
+    for (const token of tokens) {
+        const quote = token.type === 'blockquote' ? (token as Tokens.Blockquote) : null;
+        const marker = quote && admonitionPattern.exec(quote.text);
+        if (!marker) {
+            pending.push(token);
+            continue;
+        }
+        flush();
+        const body = quote.text.slice(marker[0].length);
+        segments.push({ html: marked.parse(body, { async: false }) as string, admonition: marker[1].toLowerCase() as AdmonitionKind });
+    }
+    flush();
+
+    return { segments, headings };
+}
@@ -0,0 +1,18 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { defaultLocale, translator, type Locale, type Translate } from './i18n';
+
+// The locale of the request being handled, set by src/middleware.ts. Lets server-side helpers localize their error
+// messages without every caller passing the locale down. Server-only.
+
+const localeStorage = new AsyncLocalStorage<Locale>();
+
+export function runWithLocale<T>(locale: Locale, fn: () => T): T {
+    return localeStorage.run(locale, fn);
+}
+
+export function currentLocale(): Locale {
+    return localeStorage.getStore() ?? defaultLocale;
+}
+
+// Translates into the current request's locale
+export const t: Translate = (key, params) => translator(currentLocale())(key, params);
@@ -0,0 +1,143 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { getStore } from '@netlify/blobs';
+import { t } from './requestLocale';
+import type { PurgeRecord } from '../types';
+
+// Guards the cache purge API. Callers authenticate with the shared REVALIDATE_SECRET, either directly
+// ("Authorization: Bearer <secret>") or by signing each request:
+//   X-Revalidate-Timestamp: <unix time in ms>
+//   X-Revalidate-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>", keyed with the secret>
+// Signed requests expire after a few minutes and can't be replayed.
+
+// audit/<reversed timestamp>-<id> holds one PurgeRecord per purge, newest first; rate/<ip> the request counter of a
+// caller; nonces/<padded timestamp>/<signature> the signatures used, oldest first, until their timestamp is too old to
+// be accepted anyway. Both are written conditionally, so that concurrent requests can't slip past the checks.
+function revalidationStore() {
+    return getStore({ name: 'revalidation', consistency: 'strong' });
+}
+
+const signatureMaxAgeMs = 5 * 60_000;
+const rateLimitWindowMs = 60_000;
+const rateLimitMaxRequests = 10;
+// Conditional writes that keep losing to concurrent requests are given up on, as only a flood of requests causes that
+const maxWriteAttempts = 5;
+export const maxTagsPerPurge = 20;
+
+// Paths such as "/revalidation", or names like "cats-related" and "shape:my-shape"
+export const cacheTagPattern = /^(?:\/[\w./-]{0,127}|[a-z\d][\w:.-]{0,127})$/i;
+
+type RevalidationCheck<T> = T | { error: string; status: number; headers?: Record<string, string> };
+
+function safeEqual(a: string, b: string) {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function signRevalidation(secret: string, timestamp: number | string, body: string) {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export async function authenticateRevalidation(request: Request, body: string): Promise<RevalidationCheck<{ auth: PurgeRecord['auth'] }>> {
+    const secret = process.env.REVALIDATE_SECRET;
+    if (!secret) {
+        return { error: t('errors.revalidationNotConfigured'), status: 503 };
+    }
+
+    const authorization = request.headers.get('authorization');
+    if (authorization) {
+        return safeEqual(authorization, `Bearer ${secret}`) ? { auth: 'secret' } : { error: t('errors.invalidCredentials'), status: 401 };
+    }
+
+    const timestamp = request.headers.get('x-revalidate-timestamp');
+    const signature = request.headers.get('x-revalidate-signature');
+    if (!timestamp || !signature) {
+        return { error: t('errors.missingCredentials'), status: 401 };
+    }
+    if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() - Number(timestamp)) > signatureMaxAgeMs) {
+        return { error: t('errors.staleTimestamp'), status: 401 };
+    }
+    if (!safeEqual(signature, signRevalidation(secret, timestamp, body))) {
+        return { error: t('errors.invalidSignature'), status: 401 };
+    }
+
+    // Checked only once the signature is known to be genuine, so that forged requests can't fill the store. Only the
+    // first of several requests with the same signature gets to create its nonce.
+    const nonceKey = `${noncePrefix}${nonceTime(Number(timestamp))}/${signature.slice('sha256='.length)}`;
+    const { modified } = await revalidationStore().set(nonceKey, '', { onlyIfNew: true });
+    if (!modified) {
+        return { error: t('errors.replayedRequest'), status: 401 };
+    }
+    await pruneNonces();
+    return { auth: 'signature' };
+}
+
+const noncePrefix = 'nonces/';
+
+function nonceTime(timestamp: number) {
+    return String(timestamp).padStart(16, '0');
+}
+
+// Deletes the nonces whose timestamps have expired, which are listed first
+async function pruneNonces() {
+    const store = revalidationStore();
+    const expired = `${noncePrefix}${nonceTime(Date.now() - signatureMaxAgeMs)}/`;
+    for await (const page of store.list({ prefix: noncePrefix, paginate: true })) {
+        const keys = page.blobs.map(({ key }) => key).filter((key) => key < expired);
+        await Promise.all(keys.map((key) => store.delete(key)));
+        if (keys.length < page.blobs.length) break;
+    }
+}
+
+// Fixed-window limit per client IP, applied before authentication so that guessing the secret is throttled too
+export async function checkRateLimit(ip: string): Promise<RevalidationCheck<{}>> {
+    const store = revalidationStore();
+    const key = `rate/${ip}`;
+    const limited = (retryAfter: number) => ({ error: t('errors.rateLimited'), status: 429, headers: { 'Retry-After': String(retryAfter) } });
+
+    // The counter is only written if no other request changed it since it was read; otherwise it's read again
+    for (let attempt = 0; attempt < maxWriteAttempts; attempt++) {
+        const now = Date.now();
+        const entry = await store.getWithMetadata(key, { type: 'json' });
+        const window = entry?.data as { startedAt: number; count: number } | undefined;
+        const current = window && now - window.startedAt < rateLimitWindowMs ? window : { startedAt: now, count: 0 };
+
+        if (current.count >= rateLimitMaxRequests) {
+            return limited(Math.ceil((current.startedAt + rateLimitWindowMs - now) / 1000));
+        }
+        const next = { ...current, count: current.count + 1 };
+        const { modified } = entry ? await store.setJSON(key, next, { onlyIfMatch: entry.etag }) : await store.setJSON(key, next, { onlyIfNew: true });
+        if (modified) return {};
+    }
+    return limited(Math.ceil(rateLimitWindowMs / 1000));
+}
+
+export function validateTags(tags: unknown): RevalidationCheck<{ tags: string[] }> {
+    if (!Array.isArray(tags) || tags.length === 0 || tags.length > maxTagsPerPurge) {
+        return { error: t('errors.tagsExpected', { max: maxTagsPerPurge }), status: 400 };
+    }
+    const invalid = tags.filter((tag) => typeof tag !== 'string' || !cacheTagPattern.test(tag));
+    if (invalid.length > 0) {
+        return { error: t('errors.tagsNotAllowed', { tags: invalid.map((tag) => JSON.stringify(tag)).join(', ') }), status: 400 };
+    }
+    return { tags: [...new Set(tags as string[])] };
+}
+
+export async function recordPurge(purge: Omit<PurgeRecord, 'id' | 'purgedAt'>) {
+    const record: PurgeRecord = { id: crypto.randomUUID(), purgedAt: Date.now(), ...purge };
+    const sortKey = String(Number.MAX_SAFE_INTEGER - record.purgedAt).padStart(16, '0');
+    await revalidationStore().setJSON(`audit/${sortKey}-${record.id}`, record);
+    return record;
+}
+
+// Newest first
+export async function listPurges(limit = 50) {
+    const store = revalidationStore();
+    const keys: string[] = [];
+    for await (const page of store.list({ prefix: 'audit/', paginate: true })) {
+        keys.push(...page.blobs.map(({ key }) => key));
+        if (keys.length >= limit) break;
+    }
+    const records = await Promise.all(keys.slice(0, limit).map((key) => store.get(key, { type: 'json' }) as Promise<PurgeRecord | null>));
+    return records.filter(Boolean);
+}
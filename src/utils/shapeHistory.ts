@@ -0,0 +1,101 @@
+import { getStore } from '@netlify/blobs';
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import type { BlobParameterProps, ParameterChange, ShapeVersion, StoredShape } from '../types';
+
+// Every write to a shape keeps its parameters as a new version, so that no change is final.
+// <shape key>/<zero-padded version number> holds a ShapeVersion; shape names can't contain a slash, so the prefix of
+// one shape never matches the versions of another. The oldest versions are dropped once a shape has too many.
+function historyStore() {
+    return getStore({ name: 'shape-history', consistency: 'strong' });
+}
+
+export const maxShapeVersions = 50;
+
+function versionKey(key: string, version: number) {
+    return `${key}/${String(version).padStart(8, '0')}`;
+}
+
+type VersionChange = Pick<ShapeVersion, 'change' | 'renamedFrom' | 'restoredFrom'>;
+
+function toVersion(version: number, shape: StoredShape, change: VersionChange): ShapeVersion {
+    return { version, parameters: shape.parameters, author: shape.metadata.author, savedAt: shape.metadata.updatedAt, ...change };
+}
+
+// Oldest first, as they are stored
+async function storedVersions(key: string): Promise<ShapeVersion[]> {
+    const store = historyStore();
+    const { blobs } = await store.list({ prefix: `${key}/` });
+    const versions = await Promise.all(blobs.map(({ key }) => store.get(key, { type: 'json' }) as Promise<ShapeVersion | null>));
+    return versions.filter(Boolean).sort((a, b) => a.version - b.version);
+}
+
+// Newest first. current is the shape as stored now, which becomes its first version if it has none yet.
+export async function listShapeVersions(key: string, current: StoredShape | null): Promise<ShapeVersion[]> {
+    return (await historyOf(key, current)).reverse();
+}
+
+export async function getShapeVersion(key: string, version: number) {
+    return (await historyStore().get(versionKey(key, version), { type: 'json' })) as ShapeVersion | null;
+}
+
+// The shape's versions, oldest first. A shape stored before versions were kept gets its current state as the first one.
+async function historyOf(key: string, current: StoredShape | null) {
+    const versions = await storedVersions(key);
+    if (versions.length || !current) return versions;
+    const first = toVersion(1, current, { change: 'created' });
+    await historyStore().setJSON(versionKey(key, 1), first);
+    return [first];
+}
+
+async function pruneVersions(key: string, versions: ShapeVersion[]) {
+    const store = historyStore();
+    for (const { version } of versions.slice(0, Math.max(0, versions.length - maxShapeVersions))) {
+        await store.delete(versionKey(key, version));
+    }
+}
+
+// Adds the state after a write as the shape's newest version. previous is the state before the write, if any.
+export async function recordShapeVersion(key: string, shape: StoredShape, change: VersionChange, previous: StoredShape | null = null) {
+    const versions = await historyOf(key, previous);
+    const version = toVersion((versions.at(-1)?.version ?? 0) + 1, shape, change);
+    await historyStore().setJSON(versionKey(key, version.version), version);
+    await pruneVersions(key, [...versions, version]);
+    return version;
+}
+
+// Follows a rename: the versions of the old key continue after those of the new one, which only has versions
+// of its own if the rename replaced another shape
+export async function moveShapeHistory(from: string, fromShape: StoredShape, to: string, toShape: StoredShape | null) {
+    const store = historyStore();
+    const moved = await historyOf(from, fromShape);
+    const versions = await historyOf(to, toShape);
+    let next = (versions.at(-1)?.version ?? 0) + 1;
+    for (const version of moved) {
+        const renumbered = { ...version, version: next++ };
+        await store.setJSON(versionKey(to, renumbered.version), renumbered);
+        await store.delete(versionKey(from, version.version));
+        versions.push(renumbered);
+    }
+    await pruneVersions(to, versions);
+}
+
+export async function deleteShapeHistory(key: string) {
+    const store = historyStore();
+    const { blobs } = await store.list({ prefix: `${key}/` });
+    await Promise.all(blobs.map((blob) => store.delete(blob.key)));
+}
+
+export async function requireShapeVersion(key: string, version: number) {
+    const found = Number.isInteger(version) ? await getShapeVersion(key, version) : null;
+    if (!found) throw new ApiError(404, t('errors.shapeVersionNotFound', { key, version }));
+    return found;
+}
+
+// The parameters that differ between two versions, with null for a parameter one of them doesn't have
+export function diffParameters(from: BlobParameterProps, to: BlobParameterProps): ParameterChange[] {
+    const fields = [...new Set([...Object.keys(from), ...Object.keys(to)])] as (keyof BlobParameterProps)[];
+    return fields
+        .filter((field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]))
+        .map((field) => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
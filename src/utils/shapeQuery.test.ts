@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { generateBlob } from '../utils';
+import { shapeParametersFromQuery, shapeQuery } from './shapeQuery';
+import type { BlobParameterProps } from '../types';
+
+const parameters: BlobParameterProps = { seed: 42, edges: 7, growth: 4, size: 256, angle: 90, name: 'calm-otter-123', colors: ['#2E3192', '#1bffff', '#abc'] };
+
+describe('shapeQuery', () => {
+    it('lists every parameter, with colors without their "#"', () => {
+        expect(String(shapeQuery(parameters))).toBe('seed=42&edges=7&growth=4&size=256&angle=90&name=calm-otter-123&colors=2E3192%2C1bffff%2Cabc');
+    });
+
+    it('round-trips through shapeParametersFromQuery', () => {
+        expect(shapeParametersFromQuery(shapeQuery(parameters))).toEqual(parameters);
+        const { angle, ...withoutAngle } = parameters;
+        expect(shapeParametersFromQuery(shapeQuery(withoutAngle))).toEqual(withoutAngle);
+    });
+
+    it('round-trips generated shapes to the same outline', () => {
+        const blob = generateBlob({ seed: 1234 });
+        expect(generateBlob(shapeParametersFromQuery(shapeQuery(blob.parameters)))).toEqual(blob);
+    });
+});
+
+describe('shapeParametersFromQuery', () => {
+    it('reads a seed alone', () => {
+        expect(shapeParametersFromQuery(new URLSearchParams('seed=42'))).toEqual({ seed: 42 });
+    });
+
+    it('accepts unencoded commas between colors', () => {
+        expect(shapeParametersFromQuery(new URLSearchParams('colors=000,fff'))).toEqual({ colors: ['#000', '#fff'] });
+    });
+
+    it('leaves out invalid and unknown parameters', () => {
+        expect(shapeParametersFromQuery(new URLSearchParams('seed=7&edges=99&growth=x&name=no%20spaces&colors=zz&foo=1'))).toEqual({ seed: 7 });
+    });
+
+    it('returns null without any shape parameters', () => {
+        expect(shapeParametersFromQuery(new URLSearchParams(''))).toBeNull();
+        expect(shapeParametersFromQuery(new URLSearchParams('edges=&other=1'))).toBeNull();
+    });
+});
@@ -0,0 +1,31 @@
+import { validateShapeParameters } from './validation';
+import type { BlobParameterProps } from '../types';
+
+// Shape parameters in the query of a /blobs URL, so that a link reproduces a shape exactly: /blobs?seed=42&edges=7.
+// A seed alone is enough, as the other parameters are drawn from it. Colors are listed without "#": colors=2e3192,1bffff
+
+const numericFields = ['seed', 'edges', 'growth', 'size', 'angle'] as const;
+
+export function shapeQuery(parameters: BlobParameterProps) {
+    const query = new URLSearchParams();
+    for (const field of numericFields) {
+        if (parameters[field] !== undefined) query.set(field, String(parameters[field]));
+    }
+    query.set('name', parameters.name);
+    query.set('colors', parameters.colors.map((color) => color.replace('#', '')).join(','));
+    return query;
+}
+
+// The valid parameters found in the query, leaving out invalid ones. Null when there are none.
+export function shapeParametersFromQuery(query: URLSearchParams): Partial<BlobParameterProps> | null {
+    const input: Record<string, unknown> = {};
+    for (const field of numericFields) {
+        if (query.get(field)) input[field] = Number(query.get(field));
+    }
+    if (query.get('name')) input.name = query.get('name');
+    if (query.get('colors')) input.colors = query.get('colors').split(',').map((color) => `#${color}`);
+
+    const { issues } = validateShapeParameters(input, { partial: true });
+    for (const { field } of issues ?? []) delete input[field];
+    return Object.keys(input).length ? input : null;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { generateBlob } from '../utils';
+import { gradientId, shapeSvg } from './shapeSvg';
+
+describe('gradientId', () => {
+    it('only depends on the colors and the angle', () => {
+        const colors = ['#2E3192', '#1BFFFF'];
+        expect(gradientId({ colors, angle: 90 })).toBe(gradientId({ colors: [...colors], angle: 90 }));
+        expect(gradientId({ colors })).toBe(gradientId({ colors, angle: 180 }));
+        expect(gradientId({ colors, angle: 90 })).not.toBe(gradientId({ colors, angle: 45 }));
+        expect(gradientId({ colors, angle: 90 })).not.toBe(gradientId({ colors: ['#2E3192', '#000000'], angle: 90 }));
+    });
+
+    it('is a valid id', () => {
+        expect(gradientId({ colors: ['#000', '#fff'] })).toMatch(/^gradient-[\da-z]+$/);
+    });
+});
+
+describe('shapeSvg', () => {
+    it('renders the same markup for the same seed', () => {
+        expect(shapeSvg(generateBlob({ seed: 42 }))).toBe(shapeSvg(generateBlob({ seed: 42 })));
+    });
+
+    it('references the gradient by its stable id', () => {
+        const blob = generateBlob({ seed: 42 });
+        const id = gradientId(blob.parameters);
+        expect(shapeSvg(blob)).toContain(`<linearGradient id="${id}"`);
+        expect(shapeSvg(blob)).toContain(`fill="url(#${id})"`);
+    });
+});
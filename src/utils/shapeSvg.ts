@@ -0,0 +1,56 @@
+import { translator, type Translate } from './i18n';
+import { shapeParameterRanges } from './validation';
+import type { BlobParameterProps, BlobProps } from '../types';
+
+// Standalone SVG markup for a shape, matching what ShapePreview renders. Browser-safe.
+
+// Converts a CSS-style gradient angle into the start and end points of an SVG linear gradient, in percent
+export function gradientVector(angle = 180) {
+    const radians = (angle * Math.PI) / 180;
+    const dx = Math.sin(radians) * 50;
+    const dy = -Math.cos(radians) * 50;
+    const round = (value: number) => `${Math.round(value * 100) / 100}%`;
+    return { x1: round(50 - dx), y1: round(50 - dy), x2: round(50 + dx), y2: round(50 + dy) };
+}
+
+export function gradientStopOffset(index: number, count: number) {
+    return `${(index / (count - 1)) * 100}%`;
+}
+
+// Derived from what the gradient looks like, so that it's the same on the server and in the browser, and two shapes on
+// one page can only share an id when their gradients are identical anyway
+export function gradientId(parameters: Pick<BlobParameterProps, 'colors' | 'angle'>) {
+    let hash = 0x811c9dc5;
+    for (const char of JSON.stringify([parameters.colors, parameters.angle ?? 180])) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+    }
+    return `gradient-${(hash >>> 0).toString(36)}`;
+}
+
+// size only sets the rendered width and height; the outline always stays in the shape's own coordinate space
+export function shapeSvg(blob: BlobProps, size = blob.parameters.size) {
+    const { svgPath, parameters } = blob;
+    const id = gradientId(parameters);
+    const { x1, y1, x2, y2 } = gradientVector(parameters.angle);
+    const stops = parameters.colors.map((color, index) => `<stop offset="${gradientStopOffset(index, parameters.colors.length)}" stop-color="${color}"/>`);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${parameters.size} ${parameters.size}" width="${size}" height="${size}">`,
+        `<defs><linearGradient id="${id}" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops.join('')}</linearGradient></defs>`,
+        `<path d="${svgPath}" fill="url(#${id})"/>`,
+        '</svg>'
+    ].join('');
+}
+
+// Reads the optional ?size of an export request, defaulting to the shape's own size
+export function exportSizeFromUrl(url: URL, defaultSize: number, t: Translate = translator()): { size: number } | { error: string; status: number } {
+    const value = url.searchParams.get('size');
+    if (value === null) return { size: defaultSize };
+
+    const size = Number(value);
+    const [min, max] = shapeParameterRanges.size;
+    if (!Number.isInteger(size) || size < min || size > max) {
+        return { error: t('errors.exportSize', { min, max }), status: 400 };
+    }
+    return { size };
+}
@@ -0,0 +1,155 @@
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import { allShapeKeys, allShapes, createShape, purgeShapeCache } from './shapes';
+import { validateShapeParameters } from './validation';
+import type { ShapeConflictStrategy, ShapeImportReport, ShapeImportResult } from '../types';
+
+// Moves the shapes store between sites and deploy contexts as NDJSON: one { key, parameters, metadata } object per line,
+// in the format of a ShapeListItem. An export can be imported as it is.
+
+export const conflictStrategies: ShapeConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+export const maxImportBytes = 10 * 1024 * 1024;
+// Every write also records a version, so a large import can outlast the function. Past this budget the remaining lines
+// are left for another request, which the report points to, so that the response arrives before the function times out.
+const importTimeBudget = 8000;
+const maxNameLength = 64;
+
+// Streams the shapes one line at a time, reading each only when the client is ready for more
+export function exportShapes(): ReadableStream<Uint8Array> {
+    const shapes = allShapes();
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        async pull(controller) {
+            const { done, value } = await shapes.next();
+            if (done) controller.close();
+            else controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+        },
+        async cancel() {
+            await shapes.return(undefined);
+        }
+    });
+}
+
+// Reads the whole body before anything is imported, so an oversized import fails without writing any of it
+export async function readImportBody(request: Request) {
+    const tooLarge = new ApiError(413, t('errors.importTooLarge', { max: maxImportBytes / 1024 / 1024 }));
+    if (Number(request.headers.get('content-length')) > maxImportBytes) throw tooLarge;
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = request.body?.getReader();
+    while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.byteLength;
+        if (length > maxImportBytes) {
+            await reader.cancel();
+            throw tooLarge;
+        }
+        chunks.push(value);
+    }
+    return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+// The name with the lowest "-<n>" suffix that isn't taken, shortened if needed to remain a valid name
+function freeName(name: string, taken: Set<string>) {
+    for (let n = 2; ; n++) {
+        const suffix = `-${n}`;
+        const candidate = name.slice(0, maxNameLength - suffix.length) + suffix;
+        if (!taken.has(candidate)) return candidate;
+    }
+}
+
+interface ImportOptions {
+    dryRun?: boolean;
+    onConflict?: ShapeConflictStrategy;
+    // Used for records without an author of their own
+    author?: string;
+    // The line to start at, to resume an import that ran out of time
+    fromLine?: number;
+}
+
+// Validates and stores each line on its own, so that one bad record doesn't stop the others. A dry run reports what
+// would happen, including conflicts with lines earlier in the same import, without writing anything.
+// The cache is purged once for all the written shapes, after the last write.
+export async function importShapes(ndjson: string, options: ImportOptions = {}): Promise<ShapeImportReport> {
+    const { dryRun = false, onConflict = 'skip', author, fromLine = 1 } = options;
+    const deadline = Date.now() + importTimeBudget;
+    const taken = new Set<string>();
+    for await (const key of allShapeKeys()) taken.add(key);
+
+    const results: ShapeImportResult[] = [];
+    const written: string[] = [];
+    let resumeFromLine: number | null = null;
+    const lines = ndjson.split(/\r?\n/);
+    for (const [index, line] of lines.entries()) {
+        if (index + 1 < fromLine || !line.trim()) continue;
+        if (!dryRun && Date.now() > deadline) {
+            resumeFromLine = index + 1;
+            break;
+        }
+        const failed = (error: string, extra?: Partial<ShapeImportResult>) => results.push({ line: index + 1, status: 'failed', error, ...extra });
+
+        let record: Record<string, unknown>;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            failed(t('errors.importLineJson'));
+            continue;
+        }
+        if (!record || typeof record !== 'object' || Array.isArray(record) || !('parameters' in record)) {
+            failed(t('errors.importRecord'));
+            continue;
+        }
+
+        const { parameters, issues } = validateShapeParameters(record.parameters, { t });
+        if (issues) {
+            failed(t('errors.shapeInvalid'), { issues });
+            continue;
+        }
+        if (record.key !== undefined && record.key !== parameters.name) {
+            failed(t('errors.importKeyMismatch', { key: String(record.key), name: parameters.name }), { key: parameters.name });
+            continue;
+        }
+
+        let key = parameters.name;
+        let status: ShapeImportResult['status'] = 'created';
+        if (taken.has(key)) {
+            if (onConflict === 'skip') {
+                results.push({ line: index + 1, status: 'skipped', key });
+                continue;
+            }
+            if (onConflict === 'rename') key = freeName(key, taken);
+            status = onConflict === 'rename' ? 'renamed' : 'overwritten';
+        }
+
+        if (!dryRun) {
+            // Authors and creation dates carry over, so that a restored backup lists like the original
+            const metadata = (record.metadata ?? {}) as Record<string, unknown>;
+            try {
+                await createShape(
+                    { ...parameters, name: key },
+                    {
+                        overwrite: status === 'overwritten',
+                        author: typeof metadata.author === 'string' && metadata.author ? metadata.author : author,
+                        createdAt: Number.isInteger(metadata.createdAt) && (metadata.createdAt as number) > 0 ? (metadata.createdAt as number) : undefined,
+                        purge: false
+                    }
+                );
+                written.push(key);
+            } catch (e) {
+                if (!(e instanceof ApiError)) throw e;
+                failed(e.message, { key });
+                continue;
+            }
+        }
+        taken.add(key);
+        results.push({ line: index + 1, status, key });
+    }
+
+    if (written.length) await purgeShapeCache(...written);
+
+    const counts = { created: 0, overwritten: 0, renamed: 0, skipped: 0, failed: 0 };
+    for (const { status } of results) counts[status]++;
+    return { dryRun, onConflict, counts, results, resumeFromLine };
+}
@@ -0,0 +1,41 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BlobsServer } from '@netlify/blobs/server';
+import { createShape, listShapes, shapeStore } from './shapes';
+
+vi.mock('@netlify/functions', () => ({ purgeCache: vi.fn() }));
+
+const shape = (name: string, seed: number) => ({ seed, size: 256, edges: 6, growth: 6, name, colors: ['#000000', '#ffffff'] });
+
+let server: BlobsServer;
+let directory: string;
+
+beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'shapes-test-'));
+    server = new BlobsServer({ directory, token: 'token' });
+    const { port } = await server.start();
+    const url = `http://localhost:${port}`;
+    vi.stubEnv('NETLIFY_BLOBS_CONTEXT', Buffer.from(JSON.stringify({ edgeURL: url, uncachedEdgeURL: url, token: 'token', siteID: 'site' })).toString('base64'));
+});
+
+afterAll(async () => {
+    await server.stop();
+    await rm(directory, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+});
+
+describe('listShapes', () => {
+    it('lists shapes stored before the date index existed, even when one was saved before the first listing', async () => {
+        // Stored by an earlier deploy, without an index entry
+        const createdAt = Date.UTC(2024, 0, 1);
+        await shapeStore().setJSON('older', shape('older', 1), { metadata: { createdAt, updatedAt: createdAt, author: 'anonymous', contentHash: '' } });
+        await createShape(shape('newer', 2));
+
+        expect((await listShapes()).items.map(({ key }) => key)).toEqual(['newer', 'older']);
+        // Shapes saved after the backfill are listed from the index alone
+        await createShape(shape('newest', 3));
+        expect((await listShapes()).items.map(({ key }) => key)).toEqual(['newest', 'newer', 'older']);
+    });
+});
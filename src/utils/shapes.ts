@@ -0,0 +1,263 @@
+import { createHash } from 'node:crypto';
+import { getStore } from '@netlify/blobs';
+import { purgeCache } from '@netlify/functions';
+import { ApiError, shapeWriteCacheTags } from '../utils';
+import { replaceShapeKey } from './collections';
+import { t } from './requestLocale';
+import { deleteShapeHistory, moveShapeHistory, recordShapeVersion, requireShapeVersion } from './shapeHistory';
+import { maxShapeBytes, validateShapeParameters } from './validation';
+import type { BlobParameterProps, ShapeListItem, ShapeListPage, ShapeMetadata, StoredShape, ValidationIssue } from '../types';
+
+// Shapes are keyed by their name, with their parameters as the JSON value and bookkeeping in the blob metadata.
+export function shapeStore() {
+    return getStore({ name: 'shapes', consistency: 'strong' });
+}
+
+// The Blobs API lists keys in lexicographic order only, and without their metadata. To list shapes by creation date,
+// every shape also gets an empty entry in this index store, keyed so that the newest shape sorts first.
+function shapeIndexStore() {
+    return getStore({ name: 'shapes-index', consistency: 'strong' });
+}
+
+const dateIndexPrefix = 'by-date/';
+
+function dateIndexKey(key: string, createdAt = 0) {
+    return `${dateIndexPrefix}${String(Number.MAX_SAFE_INTEGER - createdAt).padStart(16, '0')}/${key}`;
+}
+
+function contentHash(parameters: BlobParameterProps) {
+    return createHash('sha256').update(JSON.stringify(parameters)).digest('hex');
+}
+
+// Called after every write so that cached responses showing the shapes are refreshed.
+// A failed purge is only logged, as the write itself has already succeeded.
+export async function purgeShapeCache(...keys: string[]) {
+    const tags = shapeWriteCacheTags(...keys);
+    try {
+        await purgeCache({ tags });
+    } catch (e) {
+        console.error(`Failed purging cache tags ${tags.join(', ')}`, e);
+    }
+}
+
+export async function getShape(key: string): Promise<StoredShape | null> {
+    const entry = await shapeStore().getWithMetadata(key, { type: 'json' });
+    if (!entry) return null;
+    return { parameters: entry.data, metadata: entry.metadata as ShapeMetadata };
+}
+
+type ShapeBody<T> = { parameters: T } | { error: string; status: number; issues?: ValidationIssue[] };
+
+interface ShapeBodyOptions {
+    // PATCH bodies only need the fields that change
+    partial?: boolean;
+    // Fields that take precedence over the body, such as the name from the URL
+    overrides?: Partial<BlobParameterProps>;
+}
+
+// Reads and validates shape parameters from a JSON body. Oversized bodies are rejected without being read in full.
+export async function readShapeBody(request: Request, options?: ShapeBodyOptions & { partial?: false }): Promise<ShapeBody<BlobParameterProps>>;
+export async function readShapeBody(request: Request, options: ShapeBodyOptions & { partial: true }): Promise<ShapeBody<Partial<BlobParameterProps>>>;
+export async function readShapeBody(request: Request, options: ShapeBodyOptions = {}): Promise<ShapeBody<Partial<BlobParameterProps>>> {
+    const tooLarge = { error: t('errors.shapeTooLarge', { max: maxShapeBytes }), status: 413 };
+    if (Number(request.headers.get('content-length')) > maxShapeBytes) return tooLarge;
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = request.body?.getReader();
+    while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        length += value.byteLength;
+        if (length > maxShapeBytes) {
+            await reader.cancel();
+            return tooLarge;
+        }
+        chunks.push(value);
+    }
+
+    let input: unknown;
+    try {
+        input = JSON.parse(new TextDecoder().decode(Buffer.concat(chunks)));
+    } catch {
+        return { error: t('errors.shapeNotJson'), status: 400 };
+    }
+    if (input && typeof input === 'object' && options.overrides) input = { ...input, ...options.overrides };
+
+    const { parameters, issues } = options.partial ? validateShapeParameters(input, { partial: true, t }) : validateShapeParameters(input, { t });
+    if (issues) return { error: t('errors.shapeInvalid'), status: 400, issues };
+    return { parameters };
+}
+
+interface WriteOptions {
+    author?: string;
+    // Unless set, writing to a key that's already taken fails with a 409
+    overwrite?: boolean;
+    // Creation time of a new shape, when it was created elsewhere first (imports)
+    createdAt?: number;
+    // Cleared by callers that write many shapes and purge the cache once at the end (imports)
+    purge?: boolean;
+}
+
+// Reads the write options shared by the shape routes: the X-Author header and the ?overwrite=true flag
+export function writeOptionsFromRequest(request: Request, url: URL): WriteOptions {
+    return {
+        author: request.headers.get('x-author') || undefined,
+        overwrite: url.searchParams.get('overwrite') === 'true'
+    };
+}
+
+export async function createShape(parameters: BlobParameterProps, options: WriteOptions = {}): Promise<StoredShape> {
+    const { author = 'anonymous', overwrite = false, createdAt, purge = true } = options;
+    const key = parameters.name;
+    const existing = await getShape(key);
+    if (existing && !overwrite) throw new ApiError(409, t('errors.shapeExists', { key }));
+
+    const now = Date.now();
+    const metadata: ShapeMetadata = { createdAt: existing?.metadata.createdAt ?? createdAt ?? now, updatedAt: now, author, contentHash: contentHash(parameters) };
+    await shapeStore().setJSON(key, parameters, { metadata });
+    if (!existing) await shapeIndexStore().set(dateIndexKey(key, metadata.createdAt), '');
+    await recordShapeVersion(key, { parameters, metadata }, { change: existing ? 'updated' : 'created' }, existing);
+    if (purge) await purgeShapeCache(key);
+    return { parameters, metadata };
+}
+
+function updatedMetadata(existing: StoredShape, parameters: BlobParameterProps, options: WriteOptions): ShapeMetadata {
+    return { ...existing.metadata, updatedAt: Date.now(), author: options.author ?? existing.metadata.author, contentHash: contentHash(parameters) };
+}
+
+// Applies a partial change to a stored shape. Changing the name moves the shape to a new key.
+export async function updateShape(key: string, changes: Partial<BlobParameterProps>, options: WriteOptions = {}): Promise<StoredShape> {
+    const existing = await getShape(key);
+    if (!existing) throw new ApiError(404, t('errors.shapeNotFound', { key }));
+
+    const parameters = { ...existing.parameters, ...changes };
+    const renamed = parameters.name !== key;
+    const replaced = renamed ? await getShape(parameters.name) : null;
+    if (replaced && !options.overwrite) {
+        throw new ApiError(409, t('errors.shapeExists', { key: parameters.name }));
+    }
+
+    const metadata = updatedMetadata(existing, parameters, options);
+    await shapeStore().setJSON(parameters.name, parameters, { metadata });
+    if (renamed) {
+        await shapeStore().delete(key);
+        const index = shapeIndexStore();
+        if (replaced) await index.delete(dateIndexKey(parameters.name, replaced.metadata.createdAt));
+        await index.delete(dateIndexKey(key, metadata.createdAt));
+        await index.set(dateIndexKey(parameters.name, metadata.createdAt), '');
+        await replaceShapeKey(key, parameters.name);
+        await moveShapeHistory(key, existing, parameters.name, replaced);
+        await recordShapeVersion(parameters.name, { parameters, metadata }, { change: 'renamed', renamedFrom: key });
+    } else {
+        await recordShapeVersion(key, { parameters, metadata }, { change: 'updated' }, existing);
+    }
+    await purgeShapeCache(...new Set([key, parameters.name]));
+    return { parameters, metadata };
+}
+
+// Makes an earlier version's parameters the shape's current ones, as a new version. The shape keeps its current name.
+export async function restoreShapeVersion(key: string, version: number, options: WriteOptions = {}): Promise<StoredShape> {
+    const existing = await getShape(key);
+    if (!existing) throw new ApiError(404, t('errors.shapeNotFound', { key }));
+    const restored = await requireShapeVersion(key, version);
+
+    const parameters = { ...restored.parameters, name: key };
+    const metadata = updatedMetadata(existing, parameters, options);
+    await shapeStore().setJSON(key, parameters, { metadata });
+    await recordShapeVersion(key, { parameters, metadata }, { change: 'restored', restoredFrom: version }, existing);
+    await purgeShapeCache(key);
+    return { parameters, metadata };
+}
+
+export async function deleteShape(key: string) {
+    const existing = await getShape(key);
+    if (!existing) throw new ApiError(404, t('errors.shapeNotFound', { key }));
+    await shapeStore().delete(key);
+    await shapeIndexStore().delete(dateIndexKey(key, existing.metadata.createdAt));
+    await replaceShapeKey(key, null);
+    await deleteShapeHistory(key);
+    await purgeShapeCache(key);
+}
+
+export type ShapeSort = 'created' | 'name';
+
+interface ListOptions {
+    sort?: ShapeSort;
+    // Only names starting with the prefix and/or containing the (case-insensitive) search text are returned
+    prefix?: string;
+    search?: string;
+    limit?: number;
+    cursor?: string | null;
+}
+
+// Lists the blob keys in a store in order, starting after the given key. The Blobs API can't start a listing at a key,
+// so earlier pages are still fetched, but they only carry keys (up to 1000 per page) and are skipped cheaply.
+async function* keysAfter(store: ReturnType<typeof getStore>, prefix: string, after: string | null) {
+    for await (const page of store.list({ prefix, paginate: true })) {
+        for (const { key } of page.blobs) {
+            if (!after || key > after) yield key;
+        }
+    }
+}
+
+// Every stored shape's key, in order, without reading the shapes
+export function allShapeKeys() {
+    return keysAfter(shapeStore(), '', null);
+}
+
+// Every stored shape, in key order
+export async function* allShapes(): AsyncGenerator<ShapeListItem> {
+    for await (const key of allShapeKeys()) {
+        const shape = await getShape(key);
+        if (shape) yield { key, ...shape };
+    }
+}
+
+// Written once every shape stored before the date index existed has been indexed. New shapes index themselves, so an
+// index that isn't empty doesn't mean that the older shapes are in it.
+const dateIndexBackfilledKey = 'backfilled/by-date';
+
+// Shapes written before the date index existed are indexed on the first listing by date. Indexing a shape again only
+// rewrites its entry, so a backfill that was cut short is simply run again.
+async function ensureDateIndex() {
+    const index = shapeIndexStore();
+    if (await index.getMetadata(dateIndexBackfilledKey)) return;
+
+    for await (const key of keysAfter(shapeStore(), '', null)) {
+        const shape = await getShape(key);
+        if (shape) await index.set(dateIndexKey(key, shape.metadata.createdAt), '');
+    }
+    await index.set(dateIndexBackfilledKey, '');
+}
+
+// Returns one page of shapes along with an opaque cursor for the next page (null once there are no more)
+export async function listShapes(options: ListOptions = {}): Promise<ShapeListPage> {
+    const { sort = 'created', prefix = '', search = '', limit = 20, cursor = null } = options;
+    const after = cursor ? Buffer.from(cursor, 'base64url').toString() : null;
+    const matches = (key: string) => key.startsWith(prefix) && key.toLowerCase().includes(search.toLowerCase());
+
+    if (sort === 'created') await ensureDateIndex();
+    const keys =
+        sort === 'created'
+            ? keysAfter(shapeIndexStore(), dateIndexPrefix, after)
+            : keysAfter(shapeStore(), prefix, after);
+
+    // One more entry than requested is read to tell whether there's a next page
+    const page: { listKey: string; key: string }[] = [];
+    for await (const listKey of keys) {
+        const key = sort === 'created' ? listKey.split('/').pop() : listKey;
+        if (!matches(key)) continue;
+        page.push({ listKey, key });
+        if (page.length > limit) break;
+    }
+
+    const hasMore = page.length > limit;
+    const items: ShapeListItem[] = (await Promise.all(page.slice(0, limit).map(async ({ key }) => ({ key, ...(await getShape(key)) })))).filter(
+        (item) => item.parameters
+    );
+    return {
+        items,
+        nextCursor: hasMore ? Buffer.from(page[limit - 1].listKey).toString('base64url') : null
+    };
+}
@@ -0,0 +1,206 @@
+import { getStore } from '@netlify/blobs';
+import { t } from './requestLocale';
+
+// Server-side rules for files sent to the API, whatever the client claims about them: a maximum size per route,
+// the allowed types as recognized from the file's first bytes, a daily quota per client IP and safe file names.
+// quotas/<yyyy-mm-dd>/<ip> counts the files and bytes an IP uploaded on that (UTC) day.
+function quotaStore() {
+    return getStore({ name: 'upload-quotas', consistency: 'strong' });
+}
+
+export type UploadRoute = 'files' | 'convert' | 'images';
+
+interface UploadRule {
+    maxBytes: number;
+    // Without a list, any type is accepted (the file manager stores files as they are)
+    types?: string[];
+}
+
+const MiB = 1024 * 1024;
+
+export const uploadRules: Record<UploadRoute, UploadRule> = {
+    // Chunked uploads are reassembled in the function's temporary directory, which holds 512 MB
+    files: { maxBytes: 200 * MiB },
+    convert: {
+        maxBytes: 50 * MiB,
+        types: ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain', 'text/markdown', 'text/html']
+    },
+    images: { maxBytes: 25 * MiB, types: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/tiff'] }
+};
+
+export const dailyUploadQuota = { files: 200, bytes: 1024 * MiB };
+
+export type UploadCheck<T> = T | { error: string; status: number; headers?: Record<string, string> };
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// null matches any byte
+const signatures: { type: string; bytes: (number | null)[]; offset?: number }[] = [
+    { type: 'application/pdf', bytes: ascii('%PDF-') },
+    { type: 'image/png', bytes: [0x89, ...ascii('PNG\r\n\x1a\n')] },
+    { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { type: 'image/gif', bytes: ascii('GIF8') },
+    { type: 'image/webp', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WEBP')] },
+    { type: 'image/avif', bytes: ascii('ftypavi'), offset: 4 },
+    { type: 'image/tiff', bytes: ascii('II*\x00') },
+    { type: 'image/tiff', bytes: ascii('MM\x00*') },
+    { type: 'application/zip', bytes: ascii('PK\x03\x04') }
+];
+
+// What a file with a given extension has to contain
+const extensionTypes: Record<string, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    zip: 'application/zip',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    tif: 'image/tiff',
+    tiff: 'image/tiff',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    markdown: 'text/markdown',
+    html: 'text/html',
+    htm: 'text/html',
+    json: 'application/json'
+};
+
+// Enough for the signatures above, and to tell text from binary data
+const sniffLength = 8192;
+
+function extension(fileName: string) {
+    const match = /\.([^.]+)$/.exec(fileName);
+    return match?.[1].toLowerCase() ?? '';
+}
+
+function isText(head: Uint8Array) {
+    if (head.includes(0)) return false;
+    try {
+        // stream: true tolerates a character cut in half at the end of the head
+        new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// The MIME type of a file judging by its first bytes. Formats without a signature (text, and Office documents, which
+// are ZIP archives) are told apart by the extension once the content is known to be of that kind.
+export function sniffMimeType(head: Uint8Array, fileName: string) {
+    const signature = signatures.find(({ bytes, offset = 0 }) => bytes.every((byte, index) => byte === null || head[offset + index] === byte));
+    const expected = extensionTypes[extension(fileName)];
+    if (signature?.type === 'application/zip') {
+        return expected === extensionTypes.docx ? expected : signature.type;
+    }
+    if (signature) return signature.type;
+    if (head.length && isText(head)) {
+        return expected?.startsWith('text/') || expected === 'application/json' ? expected : 'text/plain';
+    }
+    return 'application/octet-stream';
+}
+
+// Keeps the name of a file (without any folders) readable but safe to store and to send back in headers
+export function sanitizeFileName(name: string) {
+    const sanitized = (name.split(/[\\/]/).pop() ?? '')
+        .normalize('NFC')
+        .replace(/[\x00-\x1f\x7f<>:"|?*]/g, '')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.]+|[\s.]+$/g, '');
+    if (!sanitized) return 'file';
+    if (sanitized.length <= 120) return sanitized;
+    const suffix = extension(sanitized) ? `.${extension(sanitized)}`.slice(0, 16) : '';
+    return sanitized.slice(0, 120 - suffix.length) + suffix;
+}
+
+export function checkUploadSize(route: UploadRoute, name: string, size: number): UploadCheck<{}> {
+    const { maxBytes } = uploadRules[route];
+    if (size > maxBytes) {
+        return { error: t('errors.fileTooLarge', { name, max: maxBytes / MiB }), status: 413 };
+    }
+    return {};
+}
+
+export async function checkUploadType(route: UploadRoute, file: File): Promise<UploadCheck<{ type: string }>> {
+    const { types } = uploadRules[route];
+    const type = sniffMimeType(new Uint8Array(await file.slice(0, sniffLength).arrayBuffer()), file.name);
+    if (!types) return { type };
+
+    const expected = extensionTypes[extension(file.name)];
+    if (!types.includes(type)) {
+        return { error: t('errors.fileTypeNotAllowed', { name: file.name, type }), status: 415 };
+    }
+    if (expected && expected !== type) {
+        return { error: t('errors.fileTypeMismatch', { name: file.name, type }), status: 415 };
+    }
+    return { type };
+}
+
+function quotaKey(now: Date, ip: string) {
+    return `quotas/${now.toISOString().slice(0, 10)}/${ip}`;
+}
+
+const maxQuotaWriteAttempts = 5;
+
+// What the IP used so far today and the version that was read, or the refusal if the files would exceed its quota
+async function quotaUsage(
+    ip: string,
+    files: number,
+    bytes: number
+): Promise<UploadCheck<{ key: string; used: { files: number; bytes: number }; stored: { etag: string } | null }>> {
+    const now = new Date();
+    const key = quotaKey(now, ip);
+    const entry = await quotaStore().getWithMetadata(key, { type: 'json' });
+    const used = (entry?.data as { files: number; bytes: number } | undefined) ?? { files: 0, bytes: 0 };
+
+    if (used.files + files > dailyUploadQuota.files || used.bytes + bytes > dailyUploadQuota.bytes) {
+        const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+        return {
+            error: t('errors.uploadQuotaExceeded', { files: dailyUploadQuota.files, max: dailyUploadQuota.bytes / MiB }),
+            status: 429,
+            headers: { 'Retry-After': String(Math.ceil((midnight - now.getTime()) / 1000)) }
+        };
+    }
+    return { key, used, stored: entry && { etag: entry.etag } };
+}
+
+// Checks that the files would fit in the IP's quota for the day, without counting them yet
+export async function checkUploadQuota(ip: string, files: number, bytes: number): Promise<UploadCheck<{}>> {
+    const usage = await quotaUsage(ip, files, bytes);
+    return 'error' in usage ? usage : {};
+}
+
+// Counts the files against the IP's quota for the day, or refuses them all if they would exceed it
+export async function consumeUploadQuota(ip: string, files: number, bytes: number): Promise<UploadCheck<{}>> {
+    const store = quotaStore();
+    // The usage is only written if no other upload changed it since it was read; otherwise it's read again
+    for (let attempt = 0; attempt < maxQuotaWriteAttempts; attempt++) {
+        const usage = await quotaUsage(ip, files, bytes);
+        if ('error' in usage) return usage;
+        const next = { files: usage.used.files + files, bytes: usage.used.bytes + bytes };
+        const { modified } = usage.stored
+            ? await store.setJSON(usage.key, next, { onlyIfMatch: usage.stored.etag })
+            : await store.setJSON(usage.key, next, { onlyIfNew: true });
+        if (modified) return {};
+    }
+    return { error: t('errors.uploadQuotaBusy'), status: 429, headers: { 'Retry-After': '1' } };
+}
+
+// Applies the whole policy to the files of a single request. Returns them with sanitized names.
+export async function checkUploads(route: UploadRoute, ip: string, files: File[]): Promise<UploadCheck<{ files: File[] }>> {
+    const checked: File[] = [];
+    for (const file of files) {
+        const name = sanitizeFileName(file.name);
+        const renamed = name === file.name ? file : new File([file], name, { type: file.type, lastModified: file.lastModified });
+        const size = checkUploadSize(route, name, file.size);
+        if ('error' in size) return size;
+        const type = await checkUploadType(route, renamed);
+        if ('error' in type) return type;
+        checked.push(renamed);
+    }
+
+    const quota = await consumeUploadQuota(ip, files.length, files.reduce((total, file) => total + file.size, 0));
+    return 'error' in quota ? quota : { files: checked };
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'node:crypto';
+import { openAsBlob } from 'node:fs';
+import { appendFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getStore } from '@netlify/blobs';
+import { ApiError } from '../utils';
+import { t } from './requestLocale';
+import { documentFormatFromFileName, isSupportedConversion } from './converter';
+import { joinPath, normalizePath } from './fileSystem';
+import { checkUploadQuota, checkUploadSize, sanitizeFileName, type UploadRoute } from './uploadPolicy';
+import type { UploadSession, UploadStatus, UploadTarget } from '../types';
+
+// Chunked uploads, for files larger than a single function request allows. The client creates an upload session,
+// sends the file in parts of chunkSize bytes (in any order, retrying or resuming as needed), then completes it:
+// the parts are reassembled, checked against the whole-file hash and handed to the upload's target.
+// sessions/<id> holds the UploadSession as JSON, parts/<id>/<index> the parts received so far.
+function uploadStore() {
+    return getStore({ name: 'uploads', consistency: 'strong' });
+}
+
+// Stays below the 6 MB request body limit of Netlify Functions
+export const uploadChunkSize = 4 * 1024 * 1024;
+
+const sha256Pattern = /^[\da-f]{64}$/;
+
+function sha256(data: Uint8Array) {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+function partKey(id: string, index: number) {
+    return `parts/${id}/${String(index).padStart(5, '0')}`;
+}
+
+// Where the parts are put back together, so that the file is read from disk as needed rather than held in memory
+function assemblyPath(id: string) {
+    return join(tmpdir(), `upload-${id}`);
+}
+
+function partLength(upload: UploadSession, index: number) {
+    return index === upload.chunkCount - 1 ? upload.size - index * upload.chunkSize : upload.chunkSize;
+}
+
+// The full path of a file manager upload, or null if the folder or name is unsafe
+export function uploadFilePath(upload: Pick<UploadSession, 'fileName' | 'target'>) {
+    if (upload.target.kind !== 'files') return null;
+    const folder = normalizePath(upload.target.path);
+    const path = folder === null ? null : normalizePath(joinPath(folder, upload.fileName));
+    return path && path !== folder ? path : null;
+}
+
+// The upload policy rules that apply to the target
+export function uploadRoute(target: UploadTarget): UploadRoute {
+    return target.kind === 'files' ? 'files' : 'convert';
+}
+
+function parseTarget(target: unknown): UploadTarget | null {
+    if (!target || typeof target !== 'object') return null;
+    const { kind, path, targetFormat } = target as Record<string, unknown>;
+    if (kind === 'files' && typeof path === 'string') return { kind, path };
+    if (kind === 'convert' && typeof targetFormat === 'string') return { kind, targetFormat } as UploadTarget;
+    return null;
+}
+
+// An upload that wouldn't fit in the caller's daily quota is refused right away, but the file only counts against it
+// once the upload completes: its type can only be checked once all parts are in, and a rejected or aborted upload
+// shouldn't use up the quota.
+export async function createUpload(input: unknown, ip: string): Promise<UploadSession> {
+    const { fileName: rawFileName, size, type, sha256: hash, target: rawTarget } = (input ?? {}) as Record<string, unknown>;
+    const target = parseTarget(rawTarget);
+    const validHash = typeof hash === 'string' && sha256Pattern.test(hash);
+    if (typeof rawFileName !== 'string' || !rawFileName || !Number.isSafeInteger(size) || (size as number) < 1 || !validHash || !target) {
+        throw new ApiError(400, t('errors.uploadRequest'));
+    }
+    const fileName = sanitizeFileName(rawFileName);
+    const sizeCheck = checkUploadSize(uploadRoute(target), fileName, size as number);
+    if ('error' in sizeCheck) throw new ApiError(sizeCheck.status, sizeCheck.error);
+
+    if (target.kind === 'files' && !uploadFilePath({ fileName, target })) {
+        throw new ApiError(400, t('errors.invalidFileName', { name: fileName }));
+    }
+    if (target.kind === 'convert') {
+        const sourceFormat = documentFormatFromFileName(fileName);
+        if (!isSupportedConversion(sourceFormat, target.targetFormat)) {
+            throw new ApiError(415, t('errors.conversionUnsupported', { source: sourceFormat ?? fileName, target: target.targetFormat }));
+        }
+    }
+    const quota = await checkUploadQuota(ip, 1, size as number);
+    if ('error' in quota) throw new ApiError(quota.status, quota.error, quota.headers);
+
+    const upload: UploadSession = {
+        id: crypto.randomUUID(),
+        fileName,
+        size: size as number,
+        type: typeof type === 'string' && type ? type : 'application/octet-stream',
+        sha256: hash as string,
+        chunkSize: uploadChunkSize,
+        chunkCount: Math.ceil((size as number) / uploadChunkSize),
+        target,
+        createdAt: Date.now()
+    };
+    await uploadStore().setJSON(`sessions/${upload.id}`, upload);
+    return upload;
+}
+
+export async function getUpload(id: string) {
+    return (await uploadStore().get(`sessions/${id}`, { type: 'json' })) as UploadSession | null;
+}
+
+async function requireUpload(id: string) {
+    const upload = await getUpload(id);
+    if (!upload) throw new ApiError(404, t('errors.uploadNotFound', { id }));
+    return upload;
+}
+
+async function uploadedParts(id: string) {
+    const { blobs } = await uploadStore().list({ prefix: `parts/${id}/` });
+    return blobs.map(({ key }) => Number(key.split('/').pop())).sort((a, b) => a - b);
+}
+
+// What a client needs to resume: the session and the parts the server already has
+export async function getUploadStatus(id: string): Promise<UploadStatus> {
+    const upload = await requireUpload(id);
+    return { ...upload, uploadedParts: await uploadedParts(id) };
+}
+
+// Stores one part after checking its length and its hash (the X-Chunk-Sha256 header). Sending a part again replaces it.
+export async function storeUploadPart(id: string, index: number, data: ArrayBuffer, hash: string | null) {
+    const upload = await requireUpload(id);
+    if (!Number.isInteger(index) || index < 0 || index >= upload.chunkCount) {
+        throw new ApiError(400, t('errors.uploadPartIndex', { max: upload.chunkCount - 1 }));
+    }
+    const expectedLength = partLength(upload, index);
+    if (data.byteLength !== expectedLength) {
+        throw new ApiError(400, t('errors.uploadPartSize', { index, size: expectedLength }));
+    }
+    if (hash?.toLowerCase() !== sha256(new Uint8Array(data))) {
+        throw new ApiError(422, t('errors.uploadPartHash', { index }));
+    }
+    await uploadStore().set(partKey(id, index), data, { metadata: { sha256: hash.toLowerCase() } });
+    return { index, sha256: hash.toLowerCase() };
+}
+
+// Reassembles the parts in order into a temporary file, one part in memory at a time, and checks the result against the
+// whole-file hash. The file returned is backed by that temporary file. The session is kept until the caller has handed
+// the file on and calls deleteUpload(), so a failure there can be retried.
+export async function assembleUpload(id: string): Promise<{ upload: UploadSession; file: File }> {
+    const upload = await requireUpload(id);
+    const received = new Set(await uploadedParts(id));
+    const missing = Array.from({ length: upload.chunkCount }, (_, index) => index).filter((index) => !received.has(index));
+    if (missing.length > 0) {
+        throw new ApiError(409, t('errors.uploadIncomplete', { parts: missing.join(', ') }));
+    }
+
+    const store = uploadStore();
+    const hash = createHash('sha256');
+    const path = assemblyPath(id);
+    await rm(path, { force: true });
+    for (let index = 0; index < upload.chunkCount; index++) {
+        const part = new Uint8Array(await store.get(partKey(id, index), { type: 'arrayBuffer' }));
+        hash.update(part);
+        await appendFile(path, part);
+    }
+    if (hash.digest('hex') !== upload.sha256) {
+        await rm(path, { force: true });
+        throw new ApiError(422, t('errors.uploadHashMismatch'));
+    }
+    return { upload, file: new File([await openAsBlob(path)], upload.fileName, { type: upload.type }) };
+}
+
+// Aborts an upload, or cleans up after a completed one
+export async function deleteUpload(id: string) {
+    await requireUpload(id);
+    const store = uploadStore();
+    const { blobs } = await store.list({ prefix: `parts/${id}/` });
+    await Promise.all(blobs.map(({ key }) => store.delete(key)));
+    await store.delete(`sessions/${id}`);
+    await rm(assemblyPath(id), { force: true });
+}
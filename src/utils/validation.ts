@@ -0,0 +1,87 @@
+import type { BlobParameterProps, ValidationIssue } from '../types';
+import { translator, type Translate } from './i18n';
+
+// Runtime checks for shape parameters, shared by the API routes and the browser so that both reject the same input.
+// The rules are keyed by BlobParameterProps, so adding a field to the type won't compile until it has a rule here.
+// Messages are localized with the translator passed in, which defaults to English.
+
+type FieldRule = (value: unknown, t: Translate) => string | null;
+
+const integerBetween =
+    ([min, max]: [number, number]): FieldRule =>
+    (value, t) =>
+        Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? null : t('validation.integerBetween', { min, max });
+
+const hexColorPattern = /^#(?:[\da-f]{3}|[\da-f]{6})$/i;
+
+// Names double as blob keys and URL segments, so they're restricted to a safe subset
+export const shapeNamePattern = /^[a-z\d][a-z\d_-]{0,63}$/i;
+
+// Taken by static routes next to /api/shapes/[key], which would shadow shapes with these names
+export const reservedShapeNames = ['export', 'import'];
+
+// Also used as the bounds of the editor controls
+export const shapeParameterRanges = {
+    size: [16, 2048],
+    edges: [3, 20],
+    growth: [2, 9],
+    colors: [2, 6],
+    angle: [0, 359]
+} satisfies Record<string, [number, number]>;
+
+export const optionalShapeFields: (keyof BlobParameterProps)[] = ['angle'];
+
+export const shapeParameterRules: Record<keyof BlobParameterProps, FieldRule> = {
+    seed: (value, t) => (Number.isSafeInteger(value) && (value as number) >= 0 ? null : t('validation.seed')),
+    size: integerBetween(shapeParameterRanges.size),
+    edges: integerBetween(shapeParameterRanges.edges),
+    growth: integerBetween(shapeParameterRanges.growth),
+    name: (value, t) => {
+        if (typeof value !== 'string' || !shapeNamePattern.test(value)) return t('validation.name');
+        return reservedShapeNames.includes(value.toLowerCase()) ? t('validation.reservedName', { names: reservedShapeNames.join(', ') }) : null;
+    },
+    colors: (value, t) => {
+        const [min, max] = shapeParameterRanges.colors;
+        return Array.isArray(value) &&
+            value.length >= min &&
+            value.length <= max &&
+            value.every((color) => typeof color === 'string' && hexColorPattern.test(color))
+            ? null
+            : t('validation.colors', { min, max });
+    },
+    angle: integerBetween(shapeParameterRanges.angle)
+};
+
+// Serialized shapes are well under 1 KB; anything much bigger isn't a shape
+export const maxShapeBytes = 4096;
+
+type ValidationResult<T> = { parameters: T; issues?: undefined } | { parameters?: undefined; issues: ValidationIssue[] };
+
+type ValidationOptions = { partial?: boolean; t?: Translate };
+
+export function validateShapeParameters(input: unknown, options?: ValidationOptions & { partial?: false }): ValidationResult<BlobParameterProps>;
+export function validateShapeParameters(input: unknown, options: ValidationOptions & { partial: true }): ValidationResult<Partial<BlobParameterProps>>;
+export function validateShapeParameters(input: unknown, options: ValidationOptions = {}): ValidationResult<Partial<BlobParameterProps>> {
+    const { partial = false, t = translator() } = options;
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { issues: [{ field: '', message: t('validation.notObject') }] };
+    }
+
+    const issues: ValidationIssue[] = [];
+    for (const field of Object.keys(input)) {
+        if (!(field in shapeParameterRules)) issues.push({ field, message: t('validation.unknownField') });
+    }
+    for (const [field, rule] of Object.entries(shapeParameterRules)) {
+        if (!(field in input)) {
+            if (!partial && !optionalShapeFields.includes(field as keyof BlobParameterProps)) issues.push({ field, message: t('validation.required') });
+            continue;
+        }
+        const message = rule(input[field], t);
+        if (message) issues.push({ field, message });
+    }
+    return issues.length ? { issues } : { parameters: input as Partial<BlobParameterProps> };
+}
+
+export function describeIssues(issues: ValidationIssue[]) {
+    return issues.map(({ field, message }) => (field ? `${field}: ${message}` : message)).join('; ');
+}